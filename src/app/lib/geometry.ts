@@ -33,7 +33,7 @@ export function intersectSegments(
   if (Math.abs(det) < 1e-10) return null; // Parallel lines
 
   const u = (dby * dx - dbx * dy) / det;
-  const v = (dax * dy - day * dx) / det;
+  const v = (day * dx - dax * dy) / det;
 
   if (u >= 0 && u <= 1 && v >= 0 && v <= 1) {
     return {
@@ -1,9 +1,11 @@
 import { Image } from 'react-konva';
 import useImage from 'use-image';
+import { getIconSource } from '@/utils/catalog';
 
 interface PlacedIconProps {
   type: 'furniture' | 'foundational';
   file: string;
+  src?: string;
   width: number;
   height: number;
   x: number;
@@ -19,6 +21,7 @@ interface PlacedIconProps {
 export function PlacedIcon({ 
   type, 
   file, 
+  src,
   width, 
   height, 
   x, 
@@ -30,8 +33,8 @@ export function PlacedIcon({
   rotation = 0,
   itemScale = 1
 }: PlacedIconProps) {
-  const iconPath = type === 'furniture' ? `/icons/furniture/${file}.svg` : `/icons/foundational/${file}.svg`;
-  const [image] = useImage(iconPath);
+  // Uploaded symbols come from storage and must not taint the canvas used for plan previews
+  const [image] = useImage(getIconSource({ type, file, src }), src ? 'anonymous' : undefined);
 
   if (!image) return null;
 
@@ -59,6 +62,7 @@ export function PlacedIcon({
 export function PreviewIcon({ 
   type, 
   file, 
+  src,
   width, 
   height, 
   x, 
@@ -71,6 +75,7 @@ export function PreviewIcon({
 }: { 
   type: 'furniture' | 'foundational'; 
   file: string;
+  src?: string;
   width: number;
   height: number;
   x: number; 
@@ -81,7 +86,7 @@ export function PreviewIcon({
   itemScale?: number;
   isInvalid?: boolean;
 }) {
-  const iconPath = type === 'furniture' ? `/icons/furniture/${file}.svg` : `/icons/foundational/${file}.svg`;
+  const iconPath = getIconSource({ type, file, src });
   
   const scaledWidth = width * scale * itemScale;
   const scaledHeight = height * scale * itemScale;
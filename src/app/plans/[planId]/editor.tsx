@@ -3,38 +3,73 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { AlertTriangle, Loader2 } from 'lucide-react';
 import type { Stage as KonvaStage } from 'konva/lib/Stage';
+import type { KonvaEventObject } from 'konva/lib/Node';
 import { useWindow } from '@/hooks/useWindow';
 import { useZoom } from '@/hooks/useZoom';
 import Toolbar, { ToolType } from './toolBar';
 import { PreviewIcon } from './IconComponents';
 import {
+  DEFAULT_PLAN_UNITS,
   DEFAULT_ROOM_FLOORING,
+  DEFAULT_WALL_THICKNESS_METERS,
+  CustomSymbol,
+  DimensionAnchor,
+  FlooringMaterial,
   FlooringType,
+  FurnitureBlock,
   Item,
   PlacedItem,
   PlacedEntity,
   RoomDefinition,
+  RoomType,
   WallItem,
   NOT_IN_ROOM_ID,
+  PlanLevel,
   PlanSnapshot,
+  PlanUnits,
+  PriceTable,
+  RealDimensions,
   createInitialPlanSnapshot,
-  createInitialRoomDefinitions
+  createInitialRoomDefinitions,
+  isPlacedItem
 } from './types';
 import { SelectionManager } from '@/managers/SelectionManager';
 import { CollisionManager } from '@/managers/CollisionManager';
 import { EditingManager, EditingState } from '@/managers/EditingManager';
 import { MouseInteractionManager, MouseState } from '@/managers/MouseInteractionManager';
-import { WallManager, WallState } from '@/managers/WallManager';
+import { WallAngleLock, WallManager, WallState } from '@/managers/WallManager';
 import { v4 as uuidv4 } from 'uuid';
 import History from '@/components/History';
 import KeyboardManager from '@/managers/KeyboardManager';
 import { SnapManager } from '@/managers/SnapManager';
 import { canPlaceOnWall } from '@/utils/wallAttachment';
+import { PALETTE_DRAG_TYPE } from '@/utils/palette';
+import { findResizeHandle } from '@/utils/parametric';
+import {
+  blockLibraryPath,
+  createFurnitureBlock,
+  instantiateBlock,
+  isGroupableItem,
+  normalizeBlockLibrary
+} from '@/utils/furnitureBlocks';
+import { tessellateWall } from '@/utils/wallArcs';
+import { buildWallOutlines } from '@/utils/wallOutline';
+import {
+  WallOperation,
+  WallOperationResult,
+  extendWallToWall,
+  mergeWalls,
+  splitWallAtPoint
+} from '@/utils/wallOperations';
+import { offsetWallChain, orderWallChain, outwardOffset } from '@/utils/wallOffset';
+import { applyRoomType, validateRoomTypes } from '@/utils/roomTypes';
+import { RoomOperation, RoomOperationResult, mergeRooms, splitRoomAlongLine } from '@/utils/roomOperations';
 import {
   assignEntitiesToRooms,
   computeRooms,
   findRoomAtPoint,
   generateRoomColor,
+  isPointInsideRoom,
   generateRoomName
 } from '@/utils/roomUtils';
 import {
@@ -48,7 +83,57 @@ import {
   ROOM_WALL_TOLERANCE
 } from '@/utils/roomBuilder';
 import KonvaCanvas from '@/components/KonvaCanvas';
+import {
+  DEFAULT_DIMENSION_OFFSET,
+  findDimensionAnchor,
+  pruneDanglingDimensions,
+  resolveDimensionAnchor
+} from '@/utils/dimensions';
+import { distance } from '@/app/lib/geometry';
+import { RoomProposal, detectRoomProposals } from '@/utils/roomDetection';
+import {
+  createFlooringMaterial,
+  materialPath,
+  materialStoragePath,
+  normalizeFlooringMaterials,
+  removeMaterialFromRooms,
+  validateTextureFile
+} from '@/utils/flooring';
+import {
+  DEFAULT_LEVEL_ID,
+  buildLevelSnapshot,
+  createLevel,
+  findLevelBelow,
+  linkStairs,
+  normalizeLevels,
+  removeLevel,
+  sortLevels
+} from '@/utils/levels';
+import { buildCostEstimate, createPriceTable, normalizePriceTable } from '@/utils/costEstimate';
+import {
+  createCustomSymbol,
+  normalizeSvgSymbol,
+  normalizeSymbolLibrary,
+  symbolLibraryPath,
+  symbolPath,
+  symbolToItem,
+  validateSymbolFile
+} from '@/utils/svgSymbols';
+import {
+  buildWallGraph,
+  findWallNodeNear,
+  propagateJunctionMoves,
+  splitWallsAtJunctions
+} from '@/utils/wallGraph';
+import PlanUnitsControl from '@/components/PlanUnitsControl';
+import LevelSwitcher from '@/components/LevelSwitcher';
+import { metersToPixels, normalizePlanUnits } from '@/utils/units';
+import { deriveMissingDimensions, rescaleEntitiesForUnits, sizeItemForUnits } from '@/utils/furnitureDimensions';
 import SelectedItemsPreview from '@/components/SelectedItemsPreview';
+import GroupInspector from '@/components/GroupInspector';
+import WallInspector, { WallOffsetDraft } from '@/components/WallInspector';
+import RoomSchedulePanel from '@/components/RoomSchedulePanel';
+import RoomNameEditor from '@/components/RoomNameEditor';
 import { CedarCaptionChat } from '@/cedar/components/chatComponents/CedarCaptionChat';
 import { supabase } from '@/lib/supabase/client';
 import { useToast } from '@/app/hooks/use-toast';
@@ -65,15 +150,44 @@ const normalizeSnapshot = (snapshot: unknown): PlanSnapshot => {
   }
 
   const candidate = snapshot as Partial<PlanSnapshot>;
-  const placedEntities = Array.isArray(candidate.placedEntities) ? candidate.placedEntities : [];
-  const roomDefinitions = Array.isArray(candidate.roomDefinitions) && candidate.roomDefinitions.length > 0
-    ? candidate.roomDefinitions
-    : createInitialRoomDefinitions();
+  const { levels, activeLevelId } = normalizeLevels(candidate);
+
+  return buildLevelSnapshot(
+    levels,
+    activeLevelId,
+    normalizePlanUnits(candidate.units),
+    normalizeFlooringMaterials(candidate.materials),
+    normalizePriceTable(candidate.prices)
+  );
+};
 
-  return {
-    placedEntities,
-    roomDefinitions,
-  } satisfies PlanSnapshot;
+// Storage answers a missing object with 404, or with 400 and a not_found body on older servers
+const isMissingObjectError = async (error: unknown): Promise<boolean> => {
+  const response = error && typeof error === 'object' && 'originalError' in error ? error.originalError : undefined;
+  if (!(response instanceof Response)) return false;
+  if (response.status === 404) return true;
+  if (response.status !== 400) return false;
+
+  const body: unknown = await response.clone().json().catch(() => null);
+  return Boolean(body && typeof body === 'object' && 'statusCode' in body && body.statusCode === '404');
+};
+
+/**
+ * Read a JSON library from the plans bucket. Only a library that has never been written counts
+ * as empty, any other failure throws so callers never overwrite a library they couldn't read.
+ */
+const downloadLibraryFile = async (path: string): Promise<unknown> => {
+  const { data, error } = await supabase.storage.from('plans').download(path);
+  if (error) {
+    if (await isMissingObjectError(error)) return [];
+    throw error;
+  }
+
+  try {
+    return JSON.parse(await data.text());
+  } catch {
+    throw new Error('The library file is corrupt.');
+  }
 };
 
 const AUTOSAVE_DELAY_MS = 600;
@@ -85,6 +199,14 @@ interface EditorProps {
 
 type PlanRevisionRow = Database['public']['Tables']['plan_revisions']['Row'];
 
+// Undo restores rooms, their wall lists included, together with the walls they refer to, and the drawing scale
+// together with the furniture sized for it
+interface EditorHistoryState {
+  placedEntities: PlacedEntity[];
+  roomDefinitions: RoomDefinition[];
+  units: PlanUnits;
+}
+
 export default function Editor({ planId, items }: EditorProps) {
   const { innerWidth, innerHeight } = useWindow();
   const { scale, position, handleWheel } = useZoom();
@@ -92,6 +214,17 @@ export default function Editor({ planId, items }: EditorProps) {
   const { user } = useAuth();
 
   const [roomDefinitions, setRoomDefinitions] = useState<RoomDefinition[]>(() => createInitialRoomDefinitions());
+  const [planUnits, setPlanUnits] = useState<PlanUnits>(() => ({ ...DEFAULT_PLAN_UNITS }));
+  const [levels, setLevels] = useState<PlanLevel[]>(() => [createLevel(0, DEFAULT_LEVEL_ID)]);
+  const [activeLevelId, setActiveLevelId] = useState(DEFAULT_LEVEL_ID);
+  const [showLevelBelow, setShowLevelBelow] = useState(true);
+  const [flooringMaterials, setFlooringMaterials] = useState<FlooringMaterial[]>([]);
+  const [priceTable, setPriceTable] = useState<PriceTable>(() => createPriceTable());
+  const [libraryOwnerId, setLibraryOwnerId] = useState<string | null>(null);
+  const [customSymbols, setCustomSymbols] = useState<CustomSymbol[]>([]);
+  const [isUploadingSymbol, setIsUploadingSymbol] = useState(false);
+  const [furnitureBlocks, setFurnitureBlocks] = useState<FurnitureBlock[]>([]);
+  const [isSavingBlock, setIsSavingBlock] = useState(false);
 
   // Core state
   const [selectedTool, setSelectedTool] = useState<ToolType>('select');
@@ -107,6 +240,16 @@ export default function Editor({ planId, items }: EditorProps) {
   const [activeRoomId, setActiveRoomId] = useState<string | null>(null);
   const [roomBuilderState, setRoomBuilderState] = useState<RoomBuilderState>(createEmptyRoomBuilderState());
   const [roomToolError, setRoomToolError] = useState<string | null>(null);
+  const [isRoomScheduleOpen, setIsRoomScheduleOpen] = useState(false);
+  const [editingRoomLabelId, setEditingRoomLabelId] = useState<string | null>(null);
+  const [roomOperation, setRoomOperation] = useState<RoomOperation | null>(null);
+  const [roomCutStart, setRoomCutStart] = useState<{ x: number; y: number } | null>(null);
+  const [roomMergeRemovesWalls, setRoomMergeRemovesWalls] = useState(true);
+  const [roomCutIsSeparator, setRoomCutIsSeparator] = useState(false);
+  const [dimensionDraft, setDimensionDraft] = useState<DimensionAnchor[]>([]);
+  const [roomProposals, setRoomProposals] = useState<RoomProposal[]>([]);
+  const [wallOperation, setWallOperation] = useState<WallOperation | null>(null);
+  const [wallOffsetDraft, setWallOffsetDraft] = useState<WallOffsetDraft | null>(null);
 
   const [snapshotLoading, setSnapshotLoading] = useState(true);
   const [snapshotError, setSnapshotError] = useState<string | null>(null);
@@ -125,15 +268,25 @@ export default function Editor({ planId, items }: EditorProps) {
   const [mouseState, setMouseState] = useState<MouseState>({
     isDraggingSelection: false,
     dragStartPos: null,
-    hasDraggedItems: false
+    hasDraggedItems: false,
+    draggedWallEnds: null,
+    nodeGrabOffset: null,
+    resizeHandle: null
   });
 
   const [wallState, setWallState] = useState<WallState>({
-    startPoint: null
+    startPoint: null,
+    chainStartPoint: null,
+    chainWallCount: 0,
+    angleLock: 0,
+    arcMode: false,
+    pendingArcEnd: null,
+    separatorMode: false
   });
 
   const lastSerializedSnapshotRef = useRef<string | null>(null);
   const isApplyingRemoteRef = useRef(false);
+  const activeLevelIdRef = useRef(DEFAULT_LEVEL_ID);
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const lastRevisionIdRef = useRef<string | null>(null);
   const latestRequestedSerializedRef = useRef<string | null>(null);
@@ -141,18 +294,70 @@ export default function Editor({ planId, items }: EditorProps) {
   const stageRef = useRef<KonvaStage | null>(null);
   const previewUploadInFlightRef = useRef(false);
   const lastUploadedSerializedRef = useRef<string | null>(null);
+  // Synced during render so undo, applied from History's effect, compares against the units on screen
+  const planUnitsRef = useRef(planUnits);
+  planUnitsRef.current = planUnits;
 
   const initialEntities = useMemo(
     () => assignEntitiesToRooms([], roomDefinitions),
     [roomDefinitions]
   );
 
-  const historyManager = History<PlacedEntity[]>({
-    initialState: initialEntities,
-    onChange: setPlacedEntities,
+  const applyHistoryState = useCallback((state: EditorHistoryState) => {
+    setPlacedEntities(state.placedEntities);
+    setRoomDefinitions(state.roomDefinitions);
+    if (state.units.pixelsPerMeter !== planUnitsRef.current.pixelsPerMeter) {
+      // Other levels aren't in the history, resize their furniture for the restored scale
+      setLevels((current) => current.map((level) => ({
+        ...level,
+        placedEntities: rescaleEntitiesForUnits(level.placedEntities, state.units)
+      })));
+      setCurrentItem((prev) => (prev ? sizeItemForUnits(prev, state.units) : prev));
+    }
+    setPlanUnits(state.units);
+  }, []);
+
+  const historyManager = History<EditorHistoryState>({
+    initialState: { placedEntities: initialEntities, roomDefinitions, units: planUnits },
+    onChange: applyHistoryState,
     options: { maxHistorySize: 50 }
   });
-  const { addToHistory, resetHistory } = historyManager;
+  const { addToHistory: addHistoryState, resetHistory: resetHistoryState } = historyManager;
+
+  const addToHistory = useCallback((entities: PlacedEntity[], rooms: RoomDefinition[], units: PlanUnits = planUnits) => {
+    addHistoryState({ placedEntities: entities, roomDefinitions: rooms, units });
+  }, [addHistoryState, planUnits]);
+
+  const resetHistory = useCallback((entities: PlacedEntity[], rooms: RoomDefinition[], units: PlanUnits = planUnits) => {
+    resetHistoryState({ placedEntities: entities, roomDefinitions: rooms, units });
+  }, [resetHistoryState, planUnits]);
+
+  // The active level's entry in `levels` goes stale while it is edited, the live state wins
+  const planLevels = useMemo(() => levels.map((level) => (
+    level.id === activeLevelId ? { ...level, placedEntities, roomDefinitions } : level
+  )), [levels, activeLevelId, placedEntities, roomDefinitions]);
+
+  const levelBelow = useMemo(
+    () => (showLevelBelow ? findLevelBelow(levels, activeLevelId) : undefined),
+    [levels, activeLevelId, showLevelBelow]
+  );
+
+  const catalogItems = useMemo(
+    () => [...items, ...customSymbols.map(symbolToItem)],
+    [items, customSymbols]
+  );
+
+  // Every level is measured, so only while the estimate is on screen
+  const costEstimate = useMemo(
+    () => (selectedTool === 'estimate'
+      ? buildCostEstimate(planLevels, planUnits, flooringMaterials, catalogItems, priceTable)
+      : null),
+    [selectedTool, planLevels, planUnits, flooringMaterials, catalogItems, priceTable]
+  );
+
+  useEffect(() => {
+    activeLevelIdRef.current = activeLevelId;
+  }, [activeLevelId]);
 
   useEffect(() => {
     console.log('Placed entities:', placedEntities);
@@ -174,7 +379,7 @@ export default function Editor({ planId, items }: EditorProps) {
 
       // Update state with new floor plan
       setRoomDefinitions(normalizedRoomDefinitions);
-      addToHistory(normalizedEntities);
+      addToHistory(normalizedEntities, normalizedRoomDefinitions);
 
       toast({
         title: 'Floor plan generated!',
@@ -335,19 +540,38 @@ export default function Editor({ planId, items }: EditorProps) {
   }, [planId, roomDefinitions.length, placedEntities.length]);
 
   const applySnapshot = useCallback(
-    (snapshot: PlanSnapshot | unknown, options: { fromRemote?: boolean; revisionId?: string } = {}) => {
+    (
+      snapshot: PlanSnapshot | unknown,
+      options: { fromRemote?: boolean; revisionId?: string; levelId?: string } = {}
+    ) => {
       const normalized = normalizeSnapshot(snapshot);
       const safeSnapshot = cloneSnapshot(normalized);
-      const normalizedRooms = safeSnapshot.roomDefinitions.length > 0
-        ? safeSnapshot.roomDefinitions
-        : createInitialRoomDefinitions();
-      const normalizedEntities = assignEntitiesToRooms(safeSnapshot.placedEntities, normalizedRooms);
+      // Remote revisions keep this editor on its own level when that level still exists
+      const { levels: storedLevels, activeLevelId: nextLevelId } = normalizeLevels({
+        ...safeSnapshot,
+        activeLevelId: options.levelId ?? safeSnapshot.activeLevelId
+      });
+      const nextLevels = linkStairs(storedLevels.map((level) => ({
+        ...level,
+        placedEntities: assignEntitiesToRooms(
+          deriveMissingDimensions(level.placedEntities, safeSnapshot.units),
+          level.roomDefinitions
+        )
+      })));
+      const activeLevel = nextLevels.find((level) => level.id === nextLevelId) ?? nextLevels[0];
+      const normalizedRooms = activeLevel.roomDefinitions;
+      const normalizedEntities = activeLevel.placedEntities;
 
       isApplyingRemoteRef.current = Boolean(options.fromRemote);
 
+      setLevels(nextLevels);
+      setActiveLevelId(activeLevel.id);
       setRoomDefinitions(normalizedRooms);
+      setPlanUnits(safeSnapshot.units);
+      setFlooringMaterials(safeSnapshot.materials ?? []);
+      setPriceTable(safeSnapshot.prices ?? createPriceTable());
       setPlacedEntities(normalizedEntities);
-      resetHistory(normalizedEntities);
+      resetHistory(normalizedEntities, normalizedRooms, safeSnapshot.units);
 
       setActiveRoomId((prev) => {
         if (!prev) return prev;
@@ -359,10 +583,9 @@ export default function Editor({ planId, items }: EditorProps) {
         lastRevisionIdRef.current = options.revisionId;
       }
 
-      const serialized = JSON.stringify({
-        placedEntities: normalizedEntities,
-        roomDefinitions: normalizedRooms,
-      });
+      const serialized = JSON.stringify(
+        buildLevelSnapshot(nextLevels, activeLevel.id, safeSnapshot.units, safeSnapshot.materials, safeSnapshot.prices)
+      );
       lastSerializedSnapshotRef.current = serialized;
       setHasPendingSave(false);
     },
@@ -432,7 +655,11 @@ export default function Editor({ planId, items }: EditorProps) {
             return;
           }
 
-          applySnapshot(revision.snapshot, { fromRemote: true, revisionId: revision.id });
+          applySnapshot(revision.snapshot, {
+            fromRemote: true,
+            revisionId: revision.id,
+            levelId: activeLevelIdRef.current
+          });
           setSnapshotError(null);
           setSnapshotLoading(false);
           setIsSnapshotReady(true);
@@ -462,15 +689,21 @@ export default function Editor({ planId, items }: EditorProps) {
       let maxX = -Infinity;
       let maxY = -Infinity;
 
+      // Crop to the drawn wall outlines so thick corners are not clipped
+      const wallOutlines = buildWallOutlines(
+        entities.filter((entity): entity is WallItem => entity.type === 'wall')
+      );
+
       entities.forEach((entity) => {
         if (entity.type === 'wall') {
-          const wall = entity as WallItem;
-          minX = Math.min(minX, wall.startX, wall.endX);
-          minY = Math.min(minY, wall.startY, wall.endY);
-          maxX = Math.max(maxX, wall.startX, wall.endX);
-          maxY = Math.max(maxY, wall.startY, wall.endY);
-        } else {
-          const item = entity as PlacedItem;
+          wallOutlines.get(entity.id)?.polygon.forEach((point) => {
+            minX = Math.min(minX, point.x);
+            minY = Math.min(minY, point.y);
+            maxX = Math.max(maxX, point.x);
+            maxY = Math.max(maxY, point.y);
+          });
+        } else if (isPlacedItem(entity)) {
+          const item = entity;
           const scaledWidth = item.width * item.scale;
           const scaledHeight = item.height * item.scale;
 
@@ -684,23 +917,21 @@ export default function Editor({ planId, items }: EditorProps) {
       const serialized = JSON.stringify({
         placedEntities,
         roomDefinitions,
+        units: planUnits,
       });
       
       if (placedEntities.length > 0) {
         savePlanPreview(serialized);
       }
     };
-  }, [placedEntities, roomDefinitions, savePlanPreview]);
+  }, [placedEntities, roomDefinitions, planUnits, savePlanPreview]);
 
   useEffect(() => {
     if (!isSnapshotReady || !user) {
       return;
     }
 
-    const snapshot: PlanSnapshot = {
-      placedEntities,
-      roomDefinitions,
-    };
+    const snapshot = buildLevelSnapshot(planLevels, activeLevelId, planUnits, flooringMaterials, priceTable);
     const serialized = JSON.stringify(snapshot);
 
     if (isApplyingRemoteRef.current) {
@@ -731,7 +962,7 @@ export default function Editor({ planId, items }: EditorProps) {
         saveTimeoutRef.current = null;
       }
     };
-  }, [isSnapshotReady, persistSnapshot, placedEntities, roomDefinitions, setHasPendingSave, user]);
+  }, [isSnapshotReady, persistSnapshot, planLevels, activeLevelId, planUnits, flooringMaterials, priceTable, setHasPendingSave, user]);
 
   // Initialize managers
   const editingManager = new EditingManager(editingState, setEditingState, placedEntities, () => editingState);
@@ -748,6 +979,11 @@ export default function Editor({ planId, items }: EditorProps) {
     [roomDefinitions, placedEntities, isClient]
   );
 
+  const editingRoomLabel = useMemo(
+    () => computedRooms.find((room) => room.id === editingRoomLabelId) ?? null,
+    [computedRooms, editingRoomLabelId]
+  );
+
   const walls = useMemo(
     () => placedEntities.filter((entity): entity is WallItem => entity.type === 'wall'),
     [placedEntities]
@@ -767,22 +1003,72 @@ export default function Editor({ planId, items }: EditorProps) {
 
   const setCurrentItemWithDefaults = (item: Item | null) => {
     if (item) {
-      setCurrentItem({
+      setCurrentItem(sizeItemForUnits({
         ...item,
         inverted: false,
         rotation: 0,
         scale: 1
-      });
+      }, planUnits));
     } else {
       setCurrentItem(null);
     }
   };
 
+  const createPlacedItem = (item: Item, x: number, y: number, id: string = uuidv4()): PlacedItem => ({
+    id,
+    file: item.file,
+    type: item.type,
+    subtype: item.subtype,
+    name: item.name,
+    src: item.src,
+    width: item.width,
+    height: item.height,
+    inverted: item.inverted,
+    rotation: item.rotation,
+    scale: item.scale,
+    dimensions: item.dimensions ? { ...item.dimensions } : undefined,
+    parametric: item.parametric,
+    category: item.category,
+    tags: item.tags,
+    clearance: item.clearance,
+    price: item.price,
+    roomTypes: item.roomTypes,
+    x,
+    y,
+    roomId: NOT_IN_ROOM_ID
+  });
+
+  /**
+   * Add an item to the plan at a stage position. Returns false when it would overlap another
+   * entity or, for doors and windows, would not sit on a wall.
+   */
+  const placeItem = (item: Item, x: number, y: number): boolean => {
+    const newItem = createPlacedItem(item, x, y);
+    if (!canPlaceOnWall(item, x, y, placedEntities) || CollisionManager.checkItemCollisions(newItem, placedEntities)) {
+      return false;
+    }
+
+    const newEntities = [...placedEntities, newItem];
+    addToHistory(assignEntitiesToRooms(newEntities, roomDefinitions), roomDefinitions);
+    return true;
+  };
+
+  // New walls, and their preview, are drawn at the standard thickness for the plan's scale
+  const wallThickness = metersToPixels(DEFAULT_WALL_THICKNESS_METERS, planUnits);
+
+  const handlePlanUnitsChange = useCallback((nextUnits: PlanUnits) => {
+    // Keep dimensioned furniture true to size against the recalibrated walls, undone in one step
+    // with the scale itself
+    addToHistory(rescaleEntitiesForUnits(placedEntities, nextUnits), roomDefinitions, nextUnits);
+  }, [addToHistory, placedEntities, roomDefinitions]);
+
   const resetRoomWorkflow = useCallback(() => {
     setRoomToolMode('view');
     setActiveRoomId(null);
     setRoomBuilderState(createEmptyRoomBuilderState());
     setRoomToolError(null);
+    setRoomOperation(null);
+    setRoomCutStart(null);
   }, []);
 
   const startRoomCreation = useCallback(() => {
@@ -817,22 +1103,251 @@ export default function Editor({ planId, items }: EditorProps) {
       if (options.pushHistory === false) {
         setPlacedEntities(normalizedEntities);
       } else {
-        addToHistory(normalizedEntities);
+        addToHistory(normalizedEntities, nextDefinitions);
       }
     },
     [addToHistory, placedEntities, setPlacedEntities]
   );
 
   const handleRoomRename = useCallback((roomId: string, name: string) => {
-    setRoomDefinitions((prev) => prev.map((room) => (
+    applyRoomDefinitions(roomDefinitions.map((room) => (
       room.id === roomId ? { ...room, name } : room
     )));
-  }, []);
+  }, [applyRoomDefinitions, roomDefinitions]);
+
+  const handleRoomTypeChange = useCallback((roomId: string, roomType: RoomType | undefined) => {
+    applyRoomDefinitions(roomDefinitions.map((room) => (
+      room.id === roomId ? applyRoomType(room, roomType, roomDefinitions) : room
+    )));
+  }, [applyRoomDefinitions, roomDefinitions]);
+
+  const roomIssues = useMemo(
+    () => validateRoomTypes(computedRooms, placedEntities, planUnits),
+    [computedRooms, placedEntities, planUnits]
+  );
+
+  const handleRoomLabelMove = useCallback((roomId: string, point: { x: number; y: number }) => {
+    const room = computedRooms.find((candidate) => candidate.id === roomId);
+    // Labels dropped outside their room go back to the default spot
+    const labelPosition = room && isPointInsideRoom(room, point.x, point.y) ? point : undefined;
+    applyRoomDefinitions(roomDefinitions.map((definition) => (
+      definition.id === roomId ? { ...definition, labelPosition } : definition
+    )));
+  }, [applyRoomDefinitions, computedRooms, roomDefinitions]);
 
   const handleRoomFlooringChange = useCallback((roomId: string, flooring: FlooringType) => {
-    setRoomDefinitions((prev) => prev.map((room) => (
+    applyRoomDefinitions(roomDefinitions.map((room) => (
       room.id === roomId ? { ...room, flooring } : room
     )));
+  }, [applyRoomDefinitions, roomDefinitions]);
+
+  const handleRoomFlooringPatternChange = useCallback(
+    (roomId: string, pattern: { flooringScale: number; flooringRotation: number }) => {
+      applyRoomDefinitions(roomDefinitions.map((room) => (
+        room.id === roomId ? { ...room, ...pattern } : room
+      )));
+    },
+    [applyRoomDefinitions, roomDefinitions]
+  );
+
+  const handleUploadFlooringTexture = useCallback(async (roomId: string, file: File) => {
+    const validationError = validateTextureFile(file);
+    if (validationError) {
+      toast({ variant: 'destructive', title: 'Could not add texture', description: validationError });
+      return;
+    }
+
+    try {
+      // SVG textures are served from the public bucket, so they get the same scrubbing as symbols
+      const isSvg = file.type === 'image/svg+xml';
+      let texture: Blob = file;
+      if (isSvg) {
+        const normalized = normalizeSvgSymbol(await file.text());
+        if (!normalized.ok) {
+          throw new Error(normalized.error);
+        }
+        texture = new Blob([normalized.svg], { type: file.type });
+      }
+
+      const materialId = `material-${uuidv4()}` as const;
+      const extension = isSvg ? 'svg' : file.name.split('.').pop()?.toLowerCase() ?? 'png';
+      const filePath = materialPath(planId, materialId, extension);
+      const storage = supabase.storage.from('plans');
+
+      const { error: uploadError } = await storage.upload(filePath, texture, {
+        cacheControl: '3600',
+        contentType: file.type,
+        upsert: true,
+      });
+
+      if (uploadError) {
+        throw uploadError;
+      }
+
+      const { data: publicData } = storage.getPublicUrl(filePath);
+      setFlooringMaterials((prev) => [...prev, createFlooringMaterial(file.name, publicData.publicUrl, materialId)]);
+      handleRoomFlooringChange(roomId, materialId);
+    } catch (uploadError) {
+      const message = uploadError instanceof Error ? uploadError.message : 'Unable to upload the texture.';
+      toast({ variant: 'destructive', title: 'Could not add texture', description: message });
+    }
+  }, [handleRoomFlooringChange, planId, toast]);
+
+  // Removing a texture deletes its upload, which undo could not bring back, so it is confirmed instead
+  const handleRemoveFlooringMaterial = useCallback(async (materialId: FlooringMaterial['id']) => {
+    const material = flooringMaterials.find((candidate) => candidate.id === materialId);
+    if (!material || !window.confirm(`Delete the texture "${material.name}"? Rooms using it go back to the default flooring. This can't be undone.`)) {
+      return;
+    }
+
+    setFlooringMaterials((prev) => prev.filter((candidate) => candidate.id !== materialId));
+    setRoomDefinitions((prev) => removeMaterialFromRooms(prev, materialId));
+    setLevels((prev) => prev.map((level) => ({
+      ...level,
+      roomDefinitions: removeMaterialFromRooms(level.roomDefinitions, materialId)
+    })));
+
+    const { error } = await supabase.storage.from('plans').remove([materialStoragePath(planId, material)]);
+    if (error) {
+      toast({ variant: 'destructive', title: 'Could not delete texture', description: error.message });
+    }
+  }, [flooringMaterials, planId, toast]);
+
+  const downloadSymbolLibrary = useCallback(async (ownerId: string): Promise<CustomSymbol[]> => (
+    normalizeSymbolLibrary(await downloadLibraryFile(symbolLibraryPath(ownerId)))
+  ), []);
+
+  const downloadBlockLibrary = useCallback(async (ownerId: string): Promise<FurnitureBlock[]> => (
+    normalizeBlockLibrary(await downloadLibraryFile(blockLibraryPath(ownerId)))
+  ), []);
+
+  const uploadBlockLibrary = useCallback(async (ownerId: string, blocks: FurnitureBlock[]) => {
+    const { error } = await supabase.storage.from('plans').upload(
+      blockLibraryPath(ownerId),
+      new Blob([JSON.stringify(blocks)], { type: 'application/json' }),
+      { cacheControl: '0', contentType: 'application/json', upsert: true }
+    );
+    if (error) {
+      throw error;
+    }
+  }, []);
+
+  useEffect(() => {
+    let isActive = true;
+
+    const loadLibraries = async () => {
+      try {
+        const { data: plan, error } = await supabase
+          .from('plans')
+          .select('owner_id')
+          .eq('id', planId)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (!plan || !isActive) return;
+
+        // One unreadable library shouldn't hide the other
+        const [symbols, blocks] = await Promise.allSettled([
+          downloadSymbolLibrary(plan.owner_id),
+          downloadBlockLibrary(plan.owner_id)
+        ]);
+        if (!isActive) return;
+        setLibraryOwnerId(plan.owner_id);
+        if (symbols.status === 'fulfilled') {
+          setCustomSymbols(symbols.value);
+        } else {
+          console.error('Failed to load the symbol library', symbols.reason);
+        }
+        if (blocks.status === 'fulfilled') {
+          setFurnitureBlocks(blocks.value);
+        } else {
+          console.error('Failed to load the block library', blocks.reason);
+        }
+      } catch (loadError) {
+        console.error('Failed to load the symbol and block libraries', loadError);
+      }
+    };
+
+    loadLibraries();
+
+    return () => {
+      isActive = false;
+    };
+  }, [downloadBlockLibrary, downloadSymbolLibrary, planId]);
+
+  const handleUploadSymbol = useCallback(async (file: File, options: { name: string; dimensions?: RealDimensions }) => {
+    const validationError = validateSymbolFile(file);
+    if (validationError || !libraryOwnerId) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not add symbol',
+        description: validationError ?? 'The symbol library is still loading.'
+      });
+      return;
+    }
+
+    setIsUploadingSymbol(true);
+    try {
+      const normalized = normalizeSvgSymbol(await file.text());
+      if (!normalized.ok) {
+        throw new Error(normalized.error);
+      }
+
+      const symbolFile = `symbol-${uuidv4()}` as const;
+      const filePath = symbolPath(libraryOwnerId, symbolFile);
+      const storage = supabase.storage.from('plans');
+
+      const { error: uploadError } = await storage.upload(
+        filePath,
+        new Blob([normalized.svg], { type: 'image/svg+xml' }),
+        { cacheControl: '3600', contentType: 'image/svg+xml', upsert: true }
+      );
+      if (uploadError) {
+        throw uploadError;
+      }
+
+      const { data: publicData } = storage.getPublicUrl(filePath);
+      const symbol = createCustomSymbol(options.name, publicData.publicUrl, normalized, options.dimensions, symbolFile);
+
+      // Re-read the library so symbols added meanwhile by other members are kept
+      const library = [...await downloadSymbolLibrary(libraryOwnerId), symbol];
+      const { error: libraryError } = await storage.upload(
+        symbolLibraryPath(libraryOwnerId),
+        new Blob([JSON.stringify(library)], { type: 'application/json' }),
+        { cacheControl: '0', contentType: 'application/json', upsert: true }
+      );
+      if (libraryError) {
+        throw libraryError;
+      }
+
+      setCustomSymbols(library);
+    } catch (uploadError) {
+      const message = uploadError instanceof Error ? uploadError.message : 'Unable to upload the symbol.';
+      toast({ variant: 'destructive', title: 'Could not add symbol', description: message });
+    } finally {
+      setIsUploadingSymbol(false);
+    }
+  }, [downloadSymbolLibrary, libraryOwnerId, toast]);
+
+  const handleDeleteBlock = useCallback(async (blockId: string) => {
+    if (!libraryOwnerId) return;
+
+    try {
+      const library = (await downloadBlockLibrary(libraryOwnerId)).filter((block) => block.id !== blockId);
+      await uploadBlockLibrary(libraryOwnerId, library);
+      setFurnitureBlocks(library);
+    } catch (deleteError) {
+      const message = deleteError instanceof Error ? deleteError.message : 'Unable to update the block library.';
+      toast({ variant: 'destructive', title: 'Could not remove block', description: message });
+    }
+  }, [downloadBlockLibrary, libraryOwnerId, toast, uploadBlockLibrary]);
+
+  const handleUnitPriceChange = useCallback((key: string, unitPrice: number) => {
+    setPriceTable((prev) => ({ ...prev, unitPrices: { ...prev.unitPrices, [key]: unitPrice } }));
+  }, []);
+
+  const handleCurrencyChange = useCallback((currency: string) => {
+    setPriceTable((prev) => ({ ...prev, currency }));
   }, []);
 
   const validateWallAvailability = useCallback(
@@ -858,6 +1373,35 @@ export default function Editor({ planId, items }: EditorProps) {
     [roomDefinitions]
   );
 
+  const detectRooms = useCallback(() => {
+    const proposals = detectRoomProposals(placedEntities, roomDefinitions);
+    setRoomProposals(proposals);
+    setRoomToolError(proposals.length === 0 ? 'No new enclosed rooms found. Close the wall loops first.' : null);
+  }, [placedEntities, roomDefinitions]);
+
+  const acceptRoomProposal = useCallback((roomId: string) => {
+    const proposal = roomProposals.find(({ definition }) => definition.id === roomId);
+    if (!proposal) return;
+
+    const validation = validateWallAvailability(proposal.definition);
+    if (!validation.valid) {
+      setRoomToolError(
+        validation.conflictWallId
+          ? `Wall ${validation.conflictWallId} already belongs to two rooms.`
+          : 'One of the selected walls is already shared by two rooms.'
+      );
+      return;
+    }
+
+    applyRoomDefinitions([...roomDefinitions, proposal.definition]);
+    setRoomProposals((prev) => prev.filter(({ definition }) => definition.id !== roomId));
+    setRoomToolError(null);
+  }, [roomProposals, roomDefinitions, validateWallAvailability, applyRoomDefinitions]);
+
+  const rejectRoomProposal = useCallback((roomId: string) => {
+    setRoomProposals((prev) => prev.filter(({ definition }) => definition.id !== roomId));
+  }, []);
+
   const handleRoomWallClick = useCallback((stageX: number, stageY: number) => {
     if (roomToolMode === 'view') return;
 
@@ -872,9 +1416,11 @@ export default function Editor({ planId, items }: EditorProps) {
   }, [roomToolMode, walls]);
 
   const builderIsValid = useMemo(() => roomBuilderHasValidCycle(roomBuilderState), [roomBuilderState]);
-  const roomShortcutsEnabled = selectedTool === 'rooms' && (roomToolMode === 'creating' || roomToolMode === 'editing');
+  const roomShortcutsEnabled = selectedTool === 'rooms' &&
+    (roomToolMode === 'creating' || roomToolMode === 'editing' || roomOperation !== null);
 
   const confirmRoomChange = useCallback(() => {
+    if (roomOperation) return;
     if (!builderIsValid) {
       setRoomToolError('Rooms need at least three connected walls that form a loop.');
       return;
@@ -953,28 +1499,303 @@ export default function Editor({ planId, items }: EditorProps) {
     roomBuilderState,
     validateWallAvailability,
     applyRoomDefinitions,
-    activeRoomId
+    activeRoomId,
+    roomOperation
   ]);
 
+  const dimensionShortcutsEnabled = selectedTool === 'dimensions' && dimensionDraft.length > 0;
+
+  // Double-clicking to finish lands two clicks on the same spot, so drop repeated points
+  const dimensionDraftChain = useMemo(() => {
+    const wallsById = new Map(walls.map((wall) => [wall.id, wall]));
+    const anchors: DimensionAnchor[] = [];
+    const points: { x: number; y: number }[] = [];
+
+    dimensionDraft.forEach((anchor) => {
+      const point = resolveDimensionAnchor(anchor, wallsById);
+      if (!point) return;
+      if (points.length > 0 && distance(point, points[points.length - 1]) < 1e-6) return;
+      anchors.push(anchor);
+      points.push(point);
+    });
+
+    return { anchors, points };
+  }, [dimensionDraft, walls]);
+
+  const dimensionDraftIsValid = dimensionDraftChain.points.length >= 2;
+
+  const dimensionPreviewPoints = useMemo(() => {
+    if (selectedTool !== 'dimensions' || dimensionDraftChain.points.length === 0) {
+      return dimensionDraftChain.points;
+    }
+
+    const cursor = {
+      x: (screenCursorPos.x - currentStagePosition.x) / scale,
+      y: (screenCursorPos.y - currentStagePosition.y) / scale
+    };
+    return [...dimensionDraftChain.points, cursor];
+  }, [selectedTool, dimensionDraftChain, screenCursorPos, currentStagePosition, scale]);
+
+  const roomCutPreview = useMemo(() => {
+    if (roomOperation !== 'split' || !roomCutStart) return null;
+
+    const cursor = {
+      x: (screenCursorPos.x - currentStagePosition.x) / scale,
+      y: (screenCursorPos.y - currentStagePosition.y) / scale
+    };
+    return [roomCutStart, cursor];
+  }, [roomOperation, roomCutStart, screenCursorPos, currentStagePosition, scale]);
+
+  const cancelDimensionDraft = useCallback(() => {
+    setDimensionDraft([]);
+  }, []);
+
+  const confirmDimensionDraft = useCallback(() => {
+    if (!dimensionDraftIsValid) return;
+
+    addToHistory([
+      ...placedEntities,
+      {
+        id: uuidv4(),
+        type: 'dimension',
+        anchors: dimensionDraftChain.anchors,
+        offset: DEFAULT_DIMENSION_OFFSET
+      }
+    ], roomDefinitions);
+    setDimensionDraft([]);
+  }, [addToHistory, dimensionDraftChain, dimensionDraftIsValid, placedEntities, roomDefinitions]);
+
+  // Split T-junctions and record the result; room wall lists follow the split walls
+  const commitWallGeometry = (entities: PlacedEntity[], rooms: RoomDefinition[] = roomDefinitions) => {
+    const { entities: splitEntities, roomDefinitions: splitRooms } = splitWallsAtJunctions(entities, rooms);
+    if (splitRooms !== roomDefinitions) {
+      setRoomDefinitions(splitRooms);
+    }
+    addToHistory(assignEntitiesToRooms(splitEntities, splitRooms), splitRooms);
+  };
+
   // Helper functions using managers
   const handleSelectedItemsChange = (updatedItems: PlacedEntity[]) => {
-    const updatedEntities = placedEntities.map(entity => {
+    const updatedEntities = propagateJunctionMoves(placedEntities, placedEntities.map(entity => {
       const updatedEntity = updatedItems.find(item => item.id === entity.id);
       return updatedEntity || entity;
-    });
+    }));
     const normalizedEntities = assignEntitiesToRooms(updatedEntities, roomDefinitions);
     const normalizedSelectedItems = normalizedEntities.filter(entity =>
       updatedItems.some(item => item.id === entity.id)
     );
 
     if (!editingManager.isEditing) {
-      historyManager.addToHistory(normalizedEntities);
+      addToHistory(normalizedEntities, roomDefinitions);
     } else {
       setPlacedEntities(normalizedEntities);
       editingManager.updateSelectedItems(normalizedSelectedItems, normalizedEntities);
     }
   };
 
+  const selectedWalls = useMemo(
+    () => editingState.selectedItems.filter((entity): entity is WallItem => entity.type === 'wall'),
+    [editingState.selectedItems]
+  );
+
+  useEffect(() => {
+    if (selectedWalls.length !== 1 || selectedTool !== 'select') {
+      setWallOperation(null);
+    }
+    if (selectedWalls.length === 0 || selectedTool !== 'select') {
+      setWallOffsetDraft(null);
+    }
+  }, [selectedWalls, selectedTool]);
+
+  // Closed chains offset outwards unless flipped
+  const wallOffsetPreview = useMemo(() => {
+    if (!wallOffsetDraft) return null;
+
+    const distancePixels = metersToPixels(wallOffsetDraft.distance, planUnits);
+    const chain = orderWallChain(selectedWalls);
+    const offset = chain?.closed ? outwardOffset(chain, distancePixels) : distancePixels;
+    return offsetWallChain(selectedWalls, wallOffsetDraft.flipped ? -offset : offset);
+  }, [wallOffsetDraft, selectedWalls, planUnits]);
+
+  const confirmWallOffset = () => {
+    if (!wallOffsetPreview?.ok) return;
+
+    setWallOffsetDraft(null);
+    editingManager.reset();
+    commitWallGeometry([...placedEntities, ...wallOffsetPreview.walls]);
+  };
+
+  const handleSelectedWallsChange = (updatedWalls: WallItem[]) => {
+    handleSelectedItemsChange(editingState.selectedItems.map((entity) =>
+      updatedWalls.find((wall) => wall.id === entity.id) ?? entity
+    ));
+  };
+
+  const selectedPlacedItems = useMemo(
+    () => editingState.selectedItems.filter(isPlacedItem),
+    [editingState.selectedItems]
+  );
+  const selectedGroup = SelectionManager.getSelectedGroup(editingState.selectedItems);
+  const canGroupSelection = selectedPlacedItems.length >= 2 &&
+    editingState.selectedItems.every(isGroupableItem);
+
+  const handleGroupSelection = (name: string) => {
+    if (!canGroupSelection) return;
+    handleSelectedItemsChange(SelectionManager.groupItems(selectedPlacedItems, name));
+  };
+
+  const handleUngroupSelection = () => {
+    handleSelectedItemsChange(SelectionManager.ungroupItems(selectedPlacedItems));
+  };
+
+  const handleRenameGroup = (name: string) => {
+    handleSelectedItemsChange(SelectionManager.renameGroup(selectedPlacedItems, name));
+  };
+
+  const handleSaveBlock = async (name: string) => {
+    if (!libraryOwnerId || !selectedGroup) return;
+
+    setIsSavingBlock(true);
+    try {
+      const block = createFurnitureBlock(name || selectedGroup.name, selectedPlacedItems, planUnits);
+      // Re-read the library so blocks saved meanwhile from other plans are kept
+      const library = [...await downloadBlockLibrary(libraryOwnerId), block];
+      await uploadBlockLibrary(libraryOwnerId, library);
+      setFurnitureBlocks(library);
+      toast({ title: 'Block saved', description: `${block.name} can now be inserted into any of your plans.` });
+    } catch (saveError) {
+      const message = saveError instanceof Error ? saveError.message : 'Unable to update the block library.';
+      toast({ variant: 'destructive', title: 'Could not save block', description: message });
+    } finally {
+      setIsSavingBlock(false);
+    }
+  };
+
+  // Blocks land in the middle of the view, selected so they can be dragged into place
+  const handleInsertBlock = (block: FurnitureBlock) => {
+    const center = {
+      x: (innerWidth / 2 - position.x) / scale,
+      y: (innerHeight / 2 - position.y) / scale
+    };
+    const insertedItems = instantiateBlock(block, center, planUnits);
+    const blocked = insertedItems.some((item) => (
+      !canPlaceOnWall(item, item.x, item.y, placedEntities) || CollisionManager.checkItemCollisions(item, placedEntities)
+    ));
+    if (blocked) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not insert block',
+        description: 'It overlaps something already on the plan. Clear some space in the middle of the view and try again.'
+      });
+      return;
+    }
+
+    const insertedIds = new Set(insertedItems.map((item) => item.id));
+    const normalizedEntities = assignEntitiesToRooms([...placedEntities, ...insertedItems], roomDefinitions);
+
+    setCurrentItem(null);
+    setSelectedTool('select');
+    addToHistory(normalizedEntities, roomDefinitions);
+    editingManager.updatePlacedEntities(normalizedEntities);
+    editingManager.selectItems(normalizedEntities.filter((entity) => insertedIds.has(entity.id)));
+  };
+
+  const applyWallOperation = (result: WallOperationResult) => {
+    setWallOperation(null);
+    if (!result.ok) {
+      toast({
+        variant: 'destructive',
+        title: 'Wall edit not possible',
+        description: result.error,
+      });
+      return;
+    }
+
+    editingManager.reset();
+    commitWallGeometry(result.entities, result.roomDefinitions);
+  };
+
+  const startRoomOperation = (operation: RoomOperation) => {
+    if (!activeRoomId) return;
+    selectRoomById(activeRoomId);
+    setRoomOperation(operation);
+    setRoomCutStart(null);
+  };
+
+  const cancelRoomOperation = () => {
+    setRoomOperation(null);
+    setRoomCutStart(null);
+  };
+
+  const applyRoomOperation = (result: RoomOperationResult) => {
+    const failedOperation = roomOperation;
+    cancelRoomOperation();
+    if (!result.ok) {
+      toast({
+        variant: 'destructive',
+        title: failedOperation === 'merge' ? 'Rooms cannot be merged' : 'Room split not possible',
+        description: result.error,
+      });
+      return;
+    }
+
+    commitWallGeometry(result.entities, result.roomDefinitions);
+  };
+
+  // The first click starts the cut line, the second one splits the active room along it
+  const handleRoomCutClick = (stageX: number, stageY: number) => {
+    if (!activeRoomId) return;
+    if (!roomCutStart) {
+      setRoomCutStart({ x: stageX, y: stageY });
+      return;
+    }
+
+    applyRoomOperation(splitRoomAlongLine(
+      placedEntities,
+      roomDefinitions,
+      activeRoomId,
+      roomCutStart,
+      { x: stageX, y: stageY },
+      { thickness: wallThickness, separator: roomCutIsSeparator },
+      10 / scale
+    ));
+  };
+
+  const handleRoomMergeClick = (stageX: number, stageY: number) => {
+    if (!activeRoomId) return;
+    const hitRoom = findRoomAtPoint(
+      computedRooms.filter((room) => room.id !== activeRoomId),
+      stageX,
+      stageY
+    );
+    if (!hitRoom) return;
+
+    applyRoomOperation(mergeRooms(placedEntities, roomDefinitions, activeRoomId, hitRoom.id, roomMergeRemovesWalls));
+  };
+
+  const handleMergeSelectedWalls = () => {
+    if (selectedWalls.length !== 2) return;
+    applyWallOperation(mergeWalls(placedEntities, roomDefinitions, selectedWalls[0].id, selectedWalls[1].id));
+  };
+
+  // Second click of a split or extend/trim picks the point or the boundary wall
+  const handleWallOperationClick = (stageX: number, stageY: number) => {
+    const [wall] = selectedWalls;
+    if (!wall || !wallOperation) return;
+
+    if (wallOperation === 'split') {
+      applyWallOperation(splitWallAtPoint(placedEntities, roomDefinitions, wall.id, { x: stageX, y: stageY }));
+      return;
+    }
+
+    const boundary = mouseManager.findClickedEntity(stageX, stageY, placedEntities);
+    if (!boundary || boundary.type !== 'wall') {
+      setWallOperation(null);
+      return;
+    }
+    applyWallOperation(extendWallToWall(placedEntities, roomDefinitions, wall.id, boundary.id));
+  };
+
   const handleDeleteSelectedItems = () => {
     if (!editingManager.isEditing || editingState.selectedItems.length === 0) {
       return;
@@ -988,19 +1809,78 @@ export default function Editor({ planId, items }: EditorProps) {
       return;
     }
 
-    const normalizedEntities = assignEntitiesToRooms(remainingEntities, roomDefinitions);
+    const normalizedEntities = assignEntitiesToRooms(
+      pruneDanglingDimensions(remainingEntities),
+      roomDefinitions
+    );
 
-    addToHistory(normalizedEntities);
+    addToHistory(normalizedEntities, roomDefinitions);
     setSnapGuides({});
     setSnappedPosition(null);
     editingManager.reset();
   };
 
+  // Levels with the active one's live content, abandoning any unsaved move of the selection
+  const collectLevels = (): PlanLevel[] => {
+    const entities = editingManager.isEditing
+      ? assignEntitiesToRooms(editingManager.cancel(), roomDefinitions)
+      : placedEntities;
+    return levels.map((level) => (
+      level.id === activeLevelId ? { ...level, placedEntities: entities, roomDefinitions } : level
+    ));
+  };
+
+  const loadLevel = (nextLevels: PlanLevel[], levelId: string) => {
+    const level = nextLevels.find((candidate) => candidate.id === levelId);
+    if (!level) return;
+
+    setCurrentItem(null);
+    wallManager.reset();
+    editingManager.reset();
+    mouseManager.resetAll();
+    resetRoomWorkflow();
+    setRoomProposals([]);
+    setDimensionDraft([]);
+    setWallOperation(null);
+    setWallOffsetDraft(null);
+    setEditingRoomLabelId(null);
+    setSnapGuides({});
+    setSnappedPosition(null);
+
+    setLevels(nextLevels);
+    setActiveLevelId(level.id);
+    setRoomDefinitions(level.roomDefinitions);
+    setPlacedEntities(level.placedEntities);
+    resetHistory(level.placedEntities, level.roomDefinitions);
+  };
+
+  const handleSelectLevel = (levelId: string) => {
+    if (levelId === activeLevelId) return;
+    loadLevel(linkStairs(collectLevels()), levelId);
+  };
+
+  const handleAddLevel = (direction: 'above' | 'below') => {
+    const current = collectLevels();
+    const elevations = current.map((level) => level.elevation);
+    const level = createLevel(direction === 'above' ? Math.max(...elevations) + 1 : Math.min(...elevations) - 1);
+    loadLevel(linkStairs([...current, level]), level.id);
+  };
+
+  const handleRemoveLevel = (levelId: string) => {
+    const current = collectLevels();
+    const level = current.find((candidate) => candidate.id === levelId);
+    if (!level || current.length < 2 || level.placedEntities.length > 0) return;
+
+    const remaining = removeLevel(current, levelId);
+    const next = findLevelBelow(current, levelId) ?? sortLevels(remaining)[0];
+    loadLevel(linkStairs(remaining), next.id);
+  };
+
   const handleSave = () => {
     const savedState = editingManager.save();
     if (savedState) {
       const normalizedState = assignEntitiesToRooms(savedState, roomDefinitions);
-      historyManager.addToHistory(normalizedState);
+      addToHistory(normalizedState, roomDefinitions);
     }
   };
 
@@ -1022,28 +1902,28 @@ export default function Editor({ planId, items }: EditorProps) {
     const stageY = (pointer.y - stage.y()) / stage.scaleY();
 
     // Handle current item placement
-    if (currentItem) {
-      const snapDistance = currentItem.file === 'wall' ? 20 : 8;
-      const snapManager = new SnapManager({ snapDistance, scale });
+    if (currentItem && currentItem.file === 'wall') {
+      const snapManager = new SnapManager({ snapDistance: 20, scale });
+      const snapResult = snapManager.getSnappedPosition(stageX, stageY, currentItem, placedEntities);
+      // Joins to existing endpoints and angle locks move the node off the axis guides
+      const wallPoint = wallManager.resolvePoint(snapResult.x, snapResult.y, placedEntities, 12 / scale);
+      const isConstrained = wallPoint.joined ||
+        (wallState.startPoint !== null && wallState.pendingArcEnd === null && wallState.angleLock > 0);
+
+      setSnappedPosition({ x: wallPoint.x, y: wallPoint.y });
+      setCanPlaceAtPosition(true);
+
+      const guides: { x?: number; y?: number } = {};
+      if (!isConstrained && snapResult.snappedX && snapResult.snapLineX !== undefined) guides.x = snapResult.snapLineX;
+      if (!isConstrained && snapResult.snappedY && snapResult.snapLineY !== undefined) guides.y = snapResult.snapLineY;
+      setSnapGuides(guides);
+    } else if (currentItem) {
+      const snapManager = new SnapManager({ snapDistance: 8, scale });
       const snapResult = snapManager.getSnappedPosition(stageX, stageY, currentItem, placedEntities);
       
       setSnappedPosition({ x: snapResult.x, y: snapResult.y });
 
-      const previewItem: PlacedItem = {
-        id: 'preview-item',
-        file: currentItem.file,
-        type: currentItem.type,
-        subtype: currentItem.subtype,
-        name: currentItem.name,
-        width: currentItem.width,
-        height: currentItem.height,
-        inverted: currentItem.inverted,
-        rotation: currentItem.rotation,
-        scale: currentItem.scale,
-        x: snapResult.x,
-        y: snapResult.y,
-        roomId: NOT_IN_ROOM_ID
-      };
+      const previewItem = createPlacedItem(currentItem, snapResult.x, snapResult.y, 'preview-item');
 
       const attachesToWall = canPlaceOnWall(currentItem, previewItem.x, previewItem.y, placedEntities);
       const overlapsEntities = CollisionManager.checkItemCollisions(previewItem, placedEntities);
@@ -1059,6 +1939,25 @@ export default function Editor({ planId, items }: EditorProps) {
     }
 
 
+    if (mouseManager.isDraggingNode) {
+      const movedEntities = mouseManager.updateNodeDrag(stageX, stageY, placedEntities);
+      if (movedEntities) {
+        setPlacedEntities(movedEntities);
+      }
+      return;
+    }
+
+    if (mouseManager.resizeHandle) {
+      const [selectedEntity] = editingState.selectedItems;
+      const resizedItem = selectedEntity && isPlacedItem(selectedEntity)
+        ? mouseManager.updateResize(stageX, stageY, selectedEntity, planUnits)
+        : null;
+      if (resizedItem) {
+        handleSelectedItemsChange([resizedItem]);
+      }
+      return;
+    }
+
     // Handle drag selection
     if (mouseManager.isDraggingSelection && editingState.selectedItems.length > 0) {
       const dragResult = mouseManager.updateDragSelection(
@@ -1101,13 +2000,14 @@ export default function Editor({ planId, items }: EditorProps) {
       
       editingState.selectedItems.forEach(entity => {
         if (entity.type === 'wall') {
-          const wall = entity as WallItem;
-          minX = Math.min(minX, wall.startX, wall.endX);
-          maxX = Math.max(maxX, wall.startX, wall.endX);
-          minY = Math.min(minY, wall.startY, wall.endY);
-          maxY = Math.max(maxY, wall.startY, wall.endY);
-        } else {
-          const item = entity as PlacedItem;
+          tessellateWall(entity as WallItem).forEach((point) => {
+            minX = Math.min(minX, point.x);
+            maxX = Math.max(maxX, point.x);
+            minY = Math.min(minY, point.y);
+            maxY = Math.max(maxY, point.y);
+          });
+        } else if (isPlacedItem(entity)) {
+          const item = entity;
           const halfWidth = (item.width * item.scale) / 2;
           const halfHeight = (item.height * item.scale) / 2;
           minX = Math.min(minX, item.x - halfWidth);
@@ -1153,7 +2053,11 @@ export default function Editor({ planId, items }: EditorProps) {
     const stageY = (pointer.y - stage.y()) / stage.scaleY();
 
     if (selectedTool === 'rooms') {
-      if (roomToolMode === 'view') {
+      if (roomOperation === 'split') {
+        handleRoomCutClick(stageX, stageY);
+      } else if (roomOperation === 'merge') {
+        handleRoomMergeClick(stageX, stageY);
+      } else if (roomToolMode === 'view') {
         const hitRoom = findRoomAtPoint(computedRooms, stageX, stageY);
         if (!hitRoom) {
           selectRoomById(null);
@@ -1171,6 +2075,16 @@ export default function Editor({ planId, items }: EditorProps) {
       return;
     }
 
+    if (selectedTool === 'dimensions') {
+      setDimensionDraft((prev) => [...prev, findDimensionAnchor(walls, stageX, stageY, 12 / scale)]);
+      return;
+    }
+
+    if (selectedTool === 'select' && !currentItem && wallOperation) {
+      handleWallOperationClick(stageX, stageY);
+      return;
+    }
+
     if (selectedTool === 'select' && !currentItem) {
       const clickedEntity = mouseManager.findClickedEntity(stageX, stageY, placedEntities);
 
@@ -1179,9 +2093,9 @@ export default function Editor({ planId, items }: EditorProps) {
         let newSelection: PlacedEntity[];
         
         if (isCtrlOrCmd) {
-          newSelection = SelectionManager.toggleEntitySelection(editingState.selectedItems, clickedEntity);
+          newSelection = SelectionManager.toggleEntityGroupSelection(editingState.selectedItems, clickedEntity, placedEntities);
         } else {
-          newSelection = SelectionManager.selectSingleEntity(clickedEntity);
+          newSelection = SelectionManager.selectEntityGroup(clickedEntity, placedEntities);
         }
         
         editingManager.selectItems(newSelection);
@@ -1206,14 +2120,23 @@ export default function Editor({ planId, items }: EditorProps) {
     }
 
     if (currentItem.file === 'wall') {
+      const wallPoint = wallManager.resolvePoint(finalX, finalY, placedEntities, 12 / scale);
+
       if (!wallManager.hasStartPoint) {
-        wallManager.setStartPoint(finalX, finalY);
+        wallManager.setStartPoint(wallPoint.x, wallPoint.y);
+      } else if (wallManager.arcMode && !wallManager.pendingArcEnd) {
+        wallManager.setPendingArcEnd(wallPoint.x, wallPoint.y);
       } else {
-        const newWall = wallManager.createWall(finalX, finalY);
+        let newWall: WallItem | null;
+        if (wallManager.pendingArcEnd) {
+          newWall = wallManager.createArcWall(finalX, finalY, wallThickness);
+        } else if (wallPoint.closesChain) {
+          newWall = wallManager.closeChain(wallThickness);
+        } else {
+          newWall = wallManager.createWall(wallPoint.x, wallPoint.y, wallThickness);
+        }
         if (newWall) {
-          const newEntities = [...placedEntities, newWall];
-          const normalizedEntities = assignEntitiesToRooms(newEntities, roomDefinitions);
-          historyManager.addToHistory(normalizedEntities);
+          commitWallGeometry([...placedEntities, newWall]);
         }
       }
     } else {
@@ -1221,31 +2144,54 @@ export default function Editor({ planId, items }: EditorProps) {
       if (!canPlaceAtPosition) {
         return;
       }
-      
-      const newItem: PlacedItem = {
-        id: uuidv4(),
-        file: currentItem.file,
-        type: currentItem.type,
-        subtype: currentItem.subtype,
-        name: currentItem.name,
-        width: currentItem.width,
-        height: currentItem.height,
-        inverted: currentItem.inverted,
-        rotation: currentItem.rotation,
-        scale: currentItem.scale,
-        x: finalX,
-        y: finalY,
-        roomId: NOT_IN_ROOM_ID
-      };
 
-      const hasCollision = CollisionManager.checkItemCollisions(newItem, placedEntities);
-      if (hasCollision) {
-        return;
-      }
+      placeItem(currentItem, finalX, finalY);
+    }
+  };
+
+  const handleCanvasDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes(PALETTE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleCanvasDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    const file = e.dataTransfer.getData(PALETTE_DRAG_TYPE);
+    const item = catalogItems.find((candidate) => candidate.file === file);
+    const stage = stageRef.current;
+    if (!item || !stage || !isClient) return;
+    e.preventDefault();
+
+    stage.setPointersPositions(e.nativeEvent);
+    const pointer = stage.getPointerPosition();
+    if (!pointer) return;
+
+    const droppedItem = sizeItemForUnits({ ...item, inverted: false, rotation: 0, scale: 1 }, planUnits);
+    const snapManager = new SnapManager({ snapDistance: 8, scale });
+    const snapResult = snapManager.getSnappedPosition(
+      (pointer.x - stage.x()) / stage.scaleX(),
+      (pointer.y - stage.y()) / stage.scaleY(),
+      droppedItem,
+      placedEntities
+    );
 
-      const newEntities = [...placedEntities, newItem];
-      const normalizedEntities = assignEntitiesToRooms(newEntities, roomDefinitions);
-      historyManager.addToHistory(normalizedEntities);
+    if (!placeItem(droppedItem, snapResult.x, snapResult.y)) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not place item',
+        description: droppedItem.subtype === 'door' || droppedItem.subtype === 'window'
+          ? 'Doors and windows have to be dropped onto a wall.'
+          : 'It overlaps something already on the plan.'
+      });
+    }
+  };
+
+  const handleStageDoubleClick = (e: KonvaEventObject<MouseEvent>) => {
+    if (e.evt.button !== 0) return;
+    if (selectedTool === 'dimensions') {
+      confirmDimensionDraft();
+    } else if (currentItem?.file === 'wall') {
+      wallManager.reset();
     }
   };
 
@@ -1261,6 +2207,25 @@ export default function Editor({ planId, items }: EditorProps) {
     const stageX = (pointer.x - stage.x()) / stage.scaleX();
     const stageY = (pointer.y - stage.y()) / stage.scaleY();
 
+    // The edge handles of a single selected parametric item resize it instead of moving it
+    const [selectedEntity] = editingState.selectedItems;
+    if (editingState.selectedItems.length === 1 && isPlacedItem(selectedEntity)) {
+      const handle = findResizeHandle(selectedEntity, stageX, stageY, 8 / scale);
+      if (handle) {
+        mouseManager.startResize(handle);
+        return;
+      }
+    }
+
+    // Grabbing a wall corner drags every wall that meets there
+    if (!editingManager.isEditing) {
+      const node = findWallNodeNear(buildWallGraph(walls), stageX, stageY, 10 / scale);
+      if (node) {
+        mouseManager.startNodeDrag(node.ends, node, stageX, stageY);
+        return;
+      }
+    }
+
     const clickedEntity = mouseManager.findClickedEntity(stageX, stageY, placedEntities);
 
     if (clickedEntity && editingManager.isEditing && editingState.selectedItems.some(item => item.id === clickedEntity.id)) {
@@ -1270,6 +2235,9 @@ export default function Editor({ planId, items }: EditorProps) {
 
   const handleStageMouseUp = (e: any) => {
     if (!isClient) return;
+    if (mouseManager.isDraggingNode && mouseManager.hasDraggedItems) {
+      commitWallGeometry(placedEntities);
+    }
     mouseManager.resetSelection();
   };
 
@@ -1280,6 +2248,11 @@ export default function Editor({ planId, items }: EditorProps) {
     if (currentItem) {
       setCurrentItem(null);
       wallManager.reset();
+    } else if (wallOperation || wallOffsetDraft) {
+      setWallOperation(null);
+      setWallOffsetDraft(null);
+    } else if (roomOperation) {
+      cancelRoomOperation();
     } else if (selectedTool !== 'select') {
       setSelectedTool('select');
     } else if (editingManager.isEditing) {
@@ -1304,8 +2277,21 @@ export default function Editor({ planId, items }: EditorProps) {
       mouseManager.resetAll();
     }
 
-    if (selectedTool !== 'rooms') {
+    if (selectedTool === 'furniture') {
+      // The selected room stays active so the palette can suggest furniture for it
+      setRoomToolMode('view');
+      setRoomBuilderState(createEmptyRoomBuilderState());
+      setRoomToolError(null);
+      setRoomOperation(null);
+      setRoomCutStart(null);
+      setRoomProposals([]);
+    } else if (selectedTool !== 'rooms') {
       resetRoomWorkflow();
+      setRoomProposals([]);
+    }
+
+    if (selectedTool !== 'dimensions') {
+      setDimensionDraft([]);
     }
   }, [selectedTool]);
 
@@ -1358,6 +2344,64 @@ export default function Editor({ planId, items }: EditorProps) {
           </div>
         ) : null}
         {historyManager.component}
+        <PlanUnitsControl units={planUnits} onUnitsChange={handlePlanUnitsChange} />
+        <LevelSwitcher
+          levels={planLevels}
+          activeLevelId={activeLevelId}
+          showLevelBelow={showLevelBelow}
+          onSelectLevel={handleSelectLevel}
+          onAddLevel={handleAddLevel}
+          onRemoveLevel={handleRemoveLevel}
+          onShowLevelBelowChange={setShowLevelBelow}
+        />
+        {!currentItem && (
+          <WallInspector
+            walls={selectedWalls}
+            units={planUnits}
+            onWallsChange={handleSelectedWallsChange}
+            activeOperation={wallOperation}
+            onStartOperation={setWallOperation}
+            onCancelOperation={() => setWallOperation(null)}
+            onMergeWalls={handleMergeSelectedWalls}
+            offsetDraft={wallOffsetDraft}
+            offsetError={wallOffsetPreview && !wallOffsetPreview.ok ? wallOffsetPreview.error : null}
+            onOffsetDraftChange={setWallOffsetDraft}
+            onConfirmOffset={confirmWallOffset}
+          />
+        )}
+        {!currentItem && selectedWalls.length === 0 && selectedPlacedItems.length > 0 && (
+          <GroupInspector
+            items={selectedPlacedItems}
+            group={selectedGroup}
+            canGroup={canGroupSelection}
+            isSavingBlock={isSavingBlock}
+            onGroup={handleGroupSelection}
+            onUngroup={handleUngroupSelection}
+            onRenameGroup={handleRenameGroup}
+            onSaveBlock={libraryOwnerId ? handleSaveBlock : undefined}
+          />
+        )}
+        {editingRoomLabel?.labelPoint && (
+          <RoomNameEditor
+            key={editingRoomLabel.id}
+            name={editingRoomLabel.name}
+            x={editingRoomLabel.labelPoint.x * scale + position.x}
+            y={editingRoomLabel.labelPoint.y * scale + position.y}
+            onCommit={(name) => {
+              handleRoomRename(editingRoomLabel.id, name);
+              setEditingRoomLabelId(null);
+            }}
+            onCancel={() => setEditingRoomLabelId(null)}
+          />
+        )}
+        {isRoomScheduleOpen && (
+          <RoomSchedulePanel
+            rooms={computedRooms}
+            units={planUnits}
+            materials={flooringMaterials}
+            onClose={() => setIsRoomScheduleOpen(false)}
+          />
+        )}
               <KeyboardManager
                   currentItem={currentItem}
                   onItemChange={setCurrentItem}
@@ -1374,11 +2418,18 @@ export default function Editor({ planId, items }: EditorProps) {
                   onRoomConfirm={confirmRoomChange}
                   onRoomCancel={resetRoomWorkflow}
                   roomBuilderIsValid={builderIsValid}
+                  dimensionShortcutsEnabled={dimensionShortcutsEnabled}
+                  onDimensionConfirm={confirmDimensionDraft}
+                  onDimensionCancel={cancelDimensionDraft}
+                  dimensionDraftIsValid={dimensionDraftIsValid}
+                  wallShortcutsEnabled={currentItem?.file === 'wall' && wallState.startPoint !== null}
+                  onWallChainFinish={() => wallManager.reset()}
               />
         {currentItem && currentItem.file !== 'wall' && (
             <PreviewIcon
             type={currentItem.type}
             file={currentItem.file}
+            src={currentItem.src}
             width={currentItem.width}
             height={currentItem.height}
             x={snappedPosition ? snappedPosition.x * scale + position.x : screenCursorPos.x}
@@ -1397,24 +2448,58 @@ export default function Editor({ planId, items }: EditorProps) {
             itemValidityMap={editingState.itemValidityMap}
             stageScale={scale}
             stagePosition={currentStagePosition}
+            units={planUnits}
           />
         )}
         <Toolbar
             selectedTool={selectedTool}
             onToolSelect={setSelectedTool}
-            items={items}
+            items={catalogItems}
             currentItem={currentItem}
             onItemSelect={setCurrentItemWithDefaults}
             rooms={roomDefinitions}
             activeRoomId={activeRoomId}
             roomToolMode={roomToolMode}
             onStartRoomCreation={startRoomCreation}
+            onDetectRooms={detectRooms}
+            roomProposals={roomProposals}
+            onAcceptRoomProposal={acceptRoomProposal}
+            onRejectRoomProposal={rejectRoomProposal}
             onCancelRoomAction={resetRoomWorkflow}
             onConfirmRoomAction={confirmRoomChange}
             onRenameRoom={handleRoomRename}
             onRoomFlooringChange={handleRoomFlooringChange}
+            onRoomFlooringPatternChange={handleRoomFlooringPatternChange}
+            flooringMaterials={flooringMaterials}
+            onUploadFlooringTexture={handleUploadFlooringTexture}
+            onRemoveFlooringMaterial={handleRemoveFlooringMaterial}
+            onRoomTypeChange={handleRoomTypeChange}
+            roomOperation={roomOperation}
+            onStartRoomOperation={startRoomOperation}
+            onCancelRoomOperation={cancelRoomOperation}
+            roomMergeRemovesWalls={roomMergeRemovesWalls}
+            onRoomMergeRemovesWallsChange={setRoomMergeRemovesWalls}
+            roomCutIsSeparator={roomCutIsSeparator}
+            onRoomCutIsSeparatorChange={setRoomCutIsSeparator}
+            roomIssues={roomIssues}
+            onToggleRoomSchedule={() => setIsRoomScheduleOpen((open) => !open)}
             roomToolError={roomToolError}
             builderIsValid={builderIsValid}
+            wallAngleLock={wallState.angleLock}
+            onWallAngleLockChange={(angleLock: WallAngleLock) => wallManager.setAngleLock(angleLock)}
+            wallArcMode={wallState.arcMode}
+            onWallArcModeChange={(arcMode: boolean) => wallManager.setArcMode(arcMode)}
+            wallSeparatorMode={wallState.separatorMode}
+            onWallSeparatorModeChange={(separatorMode: boolean) => wallManager.setSeparatorMode(separatorMode)}
+            units={planUnits}
+            costEstimate={costEstimate}
+            onUnitPriceChange={handleUnitPriceChange}
+            onCurrencyChange={handleCurrencyChange}
+            onUploadSymbol={handleUploadSymbol}
+            isUploadingSymbol={isUploadingSymbol}
+            furnitureBlocks={furnitureBlocks}
+            onInsertBlock={handleInsertBlock}
+            onDeleteBlock={handleDeleteBlock}
         />
         <KonvaCanvas
           ref={stageRef}
@@ -1423,11 +2508,19 @@ export default function Editor({ planId, items }: EditorProps) {
           scale={scale}
           position={position}
           placedEntities={placedEntities}
+          ghostEntities={levelBelow?.placedEntities}
           rooms={computedRooms}
+          flooringMaterials={flooringMaterials}
           selectedItems={editingState.selectedItems}
           itemValidityMap={editingState.itemValidityMap}
           snapGuides={snapGuides}
           wallStartPoint={wallState.startPoint}
+          wallArcEnd={wallState.pendingArcEnd}
+          wallOffsetPreview={wallOffsetPreview?.ok ? wallOffsetPreview.walls : null}
+          wallSeparatorMode={wallState.separatorMode}
+          wallPreviewThickness={wallThickness}
+          wallPreviewBulge={snappedPosition ? wallManager.previewBulge(snappedPosition.x, snappedPosition.y) : 0}
+          wallChainStartPoint={wallState.chainWallCount >= 2 ? wallState.chainStartPoint : null}
           snappedPosition={snappedPosition}
           currentItem={currentItem}
           isRoomToolActive={selectedTool === 'rooms'}
@@ -1435,12 +2528,22 @@ export default function Editor({ planId, items }: EditorProps) {
           activeRoomId={activeRoomId}
           roomBuilderState={roomBuilderState}
           roomColorMap={roomColorMap}
+          roomProposals={roomProposals}
+          units={planUnits}
+          dimensionDraftPoints={dimensionPreviewPoints}
+          roomCutLine={roomCutPreview}
+          roomLabelsInteractive={!currentItem && (selectedTool === 'select' || (selectedTool === 'rooms' && roomToolMode === 'view' && !roomOperation))}
+          onRoomLabelMove={handleRoomLabelMove}
+          onRoomLabelEdit={setEditingRoomLabelId}
           onWheel={handleWheel}
           onMouseMove={handleStageMouseMove}
           onMouseDown={handleStageMouseDown}
           onMouseUp={handleStageMouseUp}
           onClick={handleStageClick}
+          onDoubleClick={handleStageDoubleClick}
           onContextMenu={handleStageRightClick}
+          onDragOver={handleCanvasDragOver}
+          onDrop={handleCanvasDrop}
         />
         
         {/* Cedar Caption Chat for Floor Plan Processing */}
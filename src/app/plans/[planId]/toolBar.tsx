@@ -3,18 +3,36 @@
 import { useMemo } from 'react';
 import { CiLocationArrow1 } from "react-icons/ci";
 import { LiaCouchSolid } from "react-icons/lia";
-import { PiWallLight } from "react-icons/pi";
+import { PiCalculatorLight, PiRulerLight, PiWallLight } from "react-icons/pi";
 import { Tooltip } from 'react-tooltip';
 import { MdCheckBoxOutlineBlank } from "react-icons/md";
-import { FiPlus } from 'react-icons/fi';
+import { FiCheck, FiPlus, FiUpload, FiX } from 'react-icons/fi';
 
 import Image from "next/image";
-import { FlooringType, Item, RoomDefinition, NOT_IN_ROOM_ID } from "./types";
+import { FlooringMaterial, FlooringType, FurnitureBlock, Item, PlanUnits, RealDimensions, RoomDefinition, RoomType, NOT_IN_ROOM_ID } from "./types";
+import { WALL_ANGLE_LOCK_OPTIONS, WallAngleLock } from '@/managers/WallManager';
+import { RoomProposal } from '@/utils/roomDetection';
+import {
+  BUILT_IN_FLOORINGS,
+  FLOORING_LABELS,
+  FLOORING_PATTERN_SOURCES,
+  TEXTURE_CONTENT_TYPES
+} from '@/utils/flooring';
+import { ROOM_TYPES, ROOM_TYPE_PRESETS, getSuggestedFurniture } from '@/utils/roomTypes';
+import { RoomOperation } from '@/utils/roomOperations';
+import { CostEstimate } from '@/utils/costEstimate';
+import { getIconSource } from '@/utils/catalog';
+import FlooringPatternControls from '@/components/FlooringPatternControls';
+import CostEstimatePanel from '@/components/CostEstimatePanel';
+import SymbolUploadForm from '@/components/SymbolUploadForm';
+import FurniturePalette from '@/components/FurniturePalette';
+import BlockLibraryPanel from '@/components/BlockLibraryPanel';
 
-export type ToolType = 'select' | 'furniture' | 'wall' | 'rooms';
+export type ToolType = 'select' | 'furniture' | 'wall' | 'rooms' | 'dimensions' | 'estimate';
 
-const renderItemGrid = (items: ToolbarItem[], currentItem: Item | null, onItemSelect: (item: Item | null) => void, allItems: Item[]) => (
+const renderItemGrid = (items: ToolbarItem[], currentItem: Item | null, onItemSelect: (item: Item | null) => void, allItems: Item[], title?: string) => (
   <div className="bg-white rounded-2xl shadow-lg p-2">
+    {title && <div className="px-1 pb-2 text-xs font-semibold text-slate-700">{title}</div>}
     <div className="grid grid-cols-2 gap-2 max-h-[480px] overflow-y-auto furniture-menu-scroll">
       {items.map((item) => (
         <button
@@ -49,12 +67,12 @@ interface ToolbarItem {
   icon: React.ReactNode;
 }
 
-const flooringOptions: { value: FlooringType; label: string }[] = [
-  { value: 'floor_tile', label: 'Tile' },
-  { value: 'floor_wood', label: 'Wood' },
-  { value: 'floor_stone', label: 'Stone' },
-  { value: 'floor_carpet', label: 'Carpet' }
-];
+interface FlooringOption {
+  value: FlooringType;
+  label: string;
+  src: string;
+  isMaterial: boolean;
+}
 
 interface ToolbarProps {
   selectedTool: ToolType;
@@ -66,12 +84,45 @@ interface ToolbarProps {
   activeRoomId?: string | null;
   roomToolMode?: 'view' | 'creating' | 'editing';
   onStartRoomCreation?: () => void;
+  onDetectRooms?: () => void;
+  roomProposals?: RoomProposal[];
+  onAcceptRoomProposal?: (roomId: string) => void;
+  onRejectRoomProposal?: (roomId: string) => void;
   onCancelRoomAction?: () => void;
   onConfirmRoomAction?: () => void;
   onRenameRoom?: (roomId: string, name: string) => void;
   onRoomFlooringChange?: (roomId: string, flooring: FlooringType) => void;
+  onRoomFlooringPatternChange?: (roomId: string, pattern: { flooringScale: number; flooringRotation: number }) => void;
+  flooringMaterials?: FlooringMaterial[];
+  onUploadFlooringTexture?: (roomId: string, file: File) => void;
+  onRemoveFlooringMaterial?: (materialId: FlooringMaterial['id']) => void;
+  onRoomTypeChange?: (roomId: string, roomType: RoomType | undefined) => void;
+  roomIssues?: Map<string, string[]>;
+  roomOperation?: RoomOperation | null;
+  onStartRoomOperation?: (operation: RoomOperation) => void;
+  onCancelRoomOperation?: () => void;
+  roomMergeRemovesWalls?: boolean;
+  onRoomMergeRemovesWallsChange?: (removeWalls: boolean) => void;
+  roomCutIsSeparator?: boolean;
+  onRoomCutIsSeparatorChange?: (isSeparator: boolean) => void;
+  onToggleRoomSchedule?: () => void;
   roomToolError?: string | null;
   builderIsValid?: boolean;
+  wallAngleLock?: WallAngleLock;
+  onWallAngleLockChange?: (angleLock: WallAngleLock) => void;
+  wallArcMode?: boolean;
+  onWallArcModeChange?: (arcMode: boolean) => void;
+  wallSeparatorMode?: boolean;
+  onWallSeparatorModeChange?: (separatorMode: boolean) => void;
+  units?: PlanUnits;
+  costEstimate?: CostEstimate | null;
+  onUnitPriceChange?: (key: string, unitPrice: number) => void;
+  onCurrencyChange?: (currency: string) => void;
+  onUploadSymbol?: (file: File, options: { name: string; dimensions?: RealDimensions }) => void;
+  isUploadingSymbol?: boolean;
+  furnitureBlocks?: FurnitureBlock[];
+  onInsertBlock?: (block: FurnitureBlock) => void;
+  onDeleteBlock?: (blockId: string) => void;
 }
 
 export default function Toolbar({
@@ -84,12 +135,45 @@ export default function Toolbar({
   activeRoomId = null,
   roomToolMode = 'view',
   onStartRoomCreation,
+  onDetectRooms,
+  roomProposals = [],
+  onAcceptRoomProposal,
+  onRejectRoomProposal,
   onCancelRoomAction,
   onConfirmRoomAction,
   onRenameRoom,
   onRoomFlooringChange,
+  onRoomFlooringPatternChange,
+  flooringMaterials = [],
+  onUploadFlooringTexture,
+  onRemoveFlooringMaterial,
+  onRoomTypeChange,
+  roomIssues,
+  roomOperation = null,
+  onStartRoomOperation,
+  onCancelRoomOperation,
+  roomMergeRemovesWalls = true,
+  onRoomMergeRemovesWallsChange,
+  roomCutIsSeparator = false,
+  onRoomCutIsSeparatorChange,
+  onToggleRoomSchedule,
   roomToolError,
-  builderIsValid
+  builderIsValid,
+  wallAngleLock = 0,
+  onWallAngleLockChange,
+  wallArcMode = false,
+  onWallArcModeChange,
+  wallSeparatorMode = false,
+  onWallSeparatorModeChange,
+  units,
+  costEstimate = null,
+  onUnitPriceChange,
+  onCurrencyChange,
+  onUploadSymbol,
+  isUploadingSymbol = false,
+  furnitureBlocks = [],
+  onInsertBlock,
+  onDeleteBlock
 }: ToolbarProps) {
   const orderedRooms = useMemo(() => {
     return rooms
@@ -97,12 +181,34 @@ export default function Toolbar({
       .sort((a, b) => a.name.localeCompare(b.name));
   }, [rooms]);
 
+  const flooringOptions = useMemo((): FlooringOption[] => [
+    ...BUILT_IN_FLOORINGS.map((value) => ({
+      value,
+      label: FLOORING_LABELS[value],
+      src: FLOORING_PATTERN_SOURCES[value],
+      isMaterial: false
+    })),
+    ...flooringMaterials.map((material) => ({
+      value: material.id,
+      label: material.name,
+      src: material.url,
+      isMaterial: true
+    }))
+  ], [flooringMaterials]);
+
   const selectedRoom = useMemo(
     () => rooms.find((room) => room.id === activeRoomId) ?? null,
     [rooms, activeRoomId]
   );
 
   const roomModeHint = useMemo(() => {
+    if (roomOperation === 'split') {
+      return 'Click two points across the room to draw the cut line. A wall or separator is added along it. Esc cancels.';
+    }
+    if (roomOperation === 'merge') {
+      return 'Click a neighbouring room to merge it into this one. Esc cancels.';
+    }
+
     switch (roomToolMode) {
       case 'creating':
         return 'Select wall endpoints to outline the room. Enter to confirm, Esc to cancel.';
@@ -111,29 +217,33 @@ export default function Toolbar({
       default:
         return 'Select a room to highlight it or start editing its wall cycle.';
     }
-  }, [roomToolMode]);
+  }, [roomToolMode, roomOperation]);
 
   const tools = [
     { id: 'select' as ToolType, icon: <CiLocationArrow1/>, label: 'Select' },
     { id: 'furniture' as ToolType, icon: <LiaCouchSolid/>, label: 'Furniture' },
     { id: 'wall' as ToolType, icon: <PiWallLight />, label: 'Wall' },
     { id: 'rooms' as ToolType, icon: <MdCheckBoxOutlineBlank />, label: 'Rooms' },
+    { id: 'dimensions' as ToolType, icon: <PiRulerLight />, label: 'Dimensions' },
+    { id: 'estimate' as ToolType, icon: <PiCalculatorLight />, label: 'Cost estimate' },
   ];
 
-  const furnitureItems: ToolbarItem[] = items
-    .filter(item => item.type === 'furniture')
+  const furnitureItems = useMemo(() => items.filter(item => item.type === 'furniture'), [items]);
+
+  const foundationalItems: ToolbarItem[] = items
+    .filter(item => item.type === 'foundational')
     .map(item => ({
       file: item.file,
       name: item.name,
-      icon: <Image src={`/icons/furniture/${item.file}.svg`} alt={item.file} className="w-6 h-auto" height={0} width={0} sizes="100vw" />
+      icon: <Image src={getIconSource(item)} alt={item.file} className="w-6 h-auto" height={0} width={0} sizes="100vw" unoptimized={Boolean(item.src)} />
     }));
 
-  const foundationalItems: ToolbarItem[] = items
-    .filter(item => item.type === 'foundational')
+  // Furniture that suits the active room's type, offered ahead of the full catalogue
+  const suggestedFurnitureItems: ToolbarItem[] = getSuggestedFurniture(selectedRoom?.roomType, items)
     .map(item => ({
       file: item.file,
       name: item.name,
-      icon: <Image src={`/icons/foundational/${item.file}.svg`} alt={item.file} className="w-6 h-auto" height={0} width={0} sizes="100vw" />
+      icon: <Image src={getIconSource(item)} alt={item.file} className="w-6 h-auto" height={0} width={0} sizes="100vw" unoptimized={Boolean(item.src)} />
     }));
 
   const renderRoomMenu = () => (
@@ -145,20 +255,135 @@ export default function Toolbar({
             <span className="text-xs text-slate-500">{selectedRoom.name}</span>
           )}
         </div>
-        <button
-          type="button"
-          onClick={() => {
-            onStartRoomCreation?.();
-          }}
-          className="flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-600"
-        >
-          <FiPlus className="h-3.5 w-3.5" />
-          <span>New</span>
-        </button>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => {
+              onDetectRooms?.();
+            }}
+            className="rounded-lg border border-slate-200 px-2 py-1 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-600"
+            title="Find rooms enclosed by walls"
+          >
+            Detect
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              onToggleRoomSchedule?.();
+            }}
+            className="rounded-lg border border-slate-200 px-2 py-1 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-600"
+            title="Areas per room and flooring"
+          >
+            Schedule
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              onStartRoomCreation?.();
+            }}
+            className="flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-600"
+          >
+            <FiPlus className="h-3.5 w-3.5" />
+            <span>New</span>
+          </button>
+        </div>
       </div>
 
       <p className="text-xs text-slate-500 leading-relaxed">{roomModeHint}</p>
 
+      {selectedRoom && selectedRoom.id !== NOT_IN_ROOM_ID && (
+        <div className="flex items-center gap-1">
+          {roomOperation ? (
+            <>
+              {roomOperation === 'merge' && (
+                <label
+                  className="flex flex-1 items-center gap-1.5 text-xs text-slate-600"
+                  title="When off, the shared walls stay as open boundaries inside the merged room"
+                >
+                  <input
+                    type="checkbox"
+                    checked={roomMergeRemovesWalls}
+                    onChange={(event) => onRoomMergeRemovesWallsChange?.(event.target.checked)}
+                  />
+                  Remove shared walls
+                </label>
+              )}
+              {roomOperation === 'split' && (
+                <label className="flex flex-1 items-center gap-1.5 text-xs text-slate-600">
+                  <input
+                    type="checkbox"
+                    checked={roomCutIsSeparator}
+                    onChange={(event) => onRoomCutIsSeparatorChange?.(event.target.checked)}
+                  />
+                  Separator, no wall
+                </label>
+              )}
+              <button
+                type="button"
+                onClick={() => onCancelRoomOperation?.()}
+                className="rounded-lg border border-slate-200 px-2 py-1 text-xs font-medium text-slate-600 hover:border-rose-300 hover:text-rose-600"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                type="button"
+                onClick={() => onStartRoomOperation?.('split')}
+                disabled={!onStartRoomOperation}
+                className="rounded-lg border border-slate-200 px-2 py-1 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+                title="Divide this room in two with a new wall"
+              >
+                Split room
+              </button>
+              <button
+                type="button"
+                onClick={() => onStartRoomOperation?.('merge')}
+                disabled={!onStartRoomOperation}
+                className="rounded-lg border border-slate-200 px-2 py-1 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+                title="Join this room with a neighbouring room"
+              >
+                Merge
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {roomProposals.length > 0 && (
+        <div className="space-y-1.5 rounded-xl border border-dashed border-blue-300 bg-blue-50/40 p-2">
+          <span className="text-xs font-semibold text-slate-700">
+            Detected rooms ({roomProposals.length})
+          </span>
+          {roomProposals.map(({ definition }) => (
+            <div key={definition.id} className="flex items-center gap-2 rounded-lg bg-white px-2 py-1.5">
+              <span
+                className="h-3 w-3 rounded-full flex-shrink-0"
+                style={{ backgroundColor: definition.color ?? '#94a3b8' }}
+              />
+              <span className="flex-1 truncate text-xs font-medium text-slate-700">{definition.name}</span>
+              <button
+                type="button"
+                onClick={() => onAcceptRoomProposal?.(definition.id)}
+                className="rounded-md p-1 text-emerald-600 hover:bg-emerald-50"
+                title="Add room"
+              >
+                <FiCheck className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onRejectRoomProposal?.(definition.id)}
+                className="rounded-md p-1 text-rose-500 hover:bg-rose-50"
+                title="Dismiss"
+              >
+                <FiX className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="space-y-2 max-h-[360px] overflow-y-auto furniture-menu-scroll pr-1">
         {orderedRooms.map((room) => {
           const isActive = room.id === activeRoomId;
@@ -192,6 +417,22 @@ export default function Toolbar({
                 />
               </div>
 
+              <select
+                value={room.roomType ?? ''}
+                onChange={(event) => {
+                  const value = event.target.value as RoomType | '';
+                  onRoomTypeChange?.(room.id, value === '' ? undefined : value);
+                }}
+                disabled={!onRoomTypeChange}
+                aria-label={`${room.name} type`}
+                className="w-full rounded-md border border-slate-200 bg-white px-2 py-1 text-xs font-medium text-slate-600 outline-none focus:border-blue-400 disabled:cursor-not-allowed disabled:bg-slate-100"
+              >
+                <option value="">No room type</option>
+                {ROOM_TYPES.map((roomType) => (
+                  <option key={roomType} value={roomType}>{ROOM_TYPE_PRESETS[roomType].label}</option>
+                ))}
+              </select>
+
               <div
                 className="grid grid-cols-2 gap-2"
                 role="radiogroup"
@@ -217,21 +458,68 @@ export default function Toolbar({
                           : 'border-slate-200 text-slate-600 hover:border-blue-200 hover:bg-blue-50/40'
                       } ${isDisabled ? 'cursor-not-allowed opacity-60 hover:border-slate-200 hover:bg-transparent' : 'cursor-pointer'}`}
                     >
-                      <span className="inline-flex h-6 w-6 items-center justify-center rounded-md bg-white">
+                      <span className="inline-flex h-6 w-6 flex-shrink-0 items-center justify-center overflow-hidden rounded-md bg-white">
                         <Image
-                          src={`/icons/furniture/${option.value}.svg`}
-                          alt={option.value}
+                          src={option.src}
+                          alt={option.label}
                           className="w-5 h-auto"
                           height={0}
                           width={0}
                           sizes="100vw"
+                          unoptimized={option.isMaterial}
                         />
                       </span>
-                      <span>{option.label}</span>
+                      <span className="flex-1 truncate text-left">{option.label}</span>
+                      {option.isMaterial && onRemoveFlooringMaterial && (
+                        <span
+                          role="button"
+                          tabIndex={-1}
+                          title="Delete from the plan's materials (can't be undone)"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            onRemoveFlooringMaterial(option.value as FlooringMaterial['id']);
+                          }}
+                          className="rounded p-0.5 text-slate-400 hover:bg-slate-100 hover:text-rose-500"
+                        >
+                          <FiX className="h-3 w-3" />
+                        </span>
+                      )}
                     </button>
                   );
                 })}
+                {onUploadFlooringTexture && (
+                  <label
+                    className="flex cursor-pointer items-center gap-2 rounded-lg border border-dashed border-slate-300 px-2 py-1.5 text-xs font-medium text-slate-500 transition hover:border-blue-300 hover:text-blue-600"
+                    title="Upload a texture to the plan's materials"
+                  >
+                    <FiUpload className="h-4 w-4" />
+                    <span>Upload</span>
+                    <input
+                      type="file"
+                      accept={TEXTURE_CONTENT_TYPES.join(',')}
+                      className="hidden"
+                      onChange={(event) => {
+                        const file = event.target.files?.[0];
+                        event.target.value = '';
+                        if (file) onUploadFlooringTexture(room.id, file);
+                      }}
+                    />
+                  </label>
+                )}
               </div>
+
+              <FlooringPatternControls
+                scale={room.flooringScale ?? 1}
+                rotation={room.flooringRotation ?? 0}
+                disabled={!onRoomFlooringPatternChange}
+                onChange={(pattern) => onRoomFlooringPatternChange?.(room.id, pattern)}
+              />
+
+              {roomIssues?.get(room.id)?.map((issue) => (
+                <div key={issue} className="rounded-lg border border-amber-100 bg-amber-50 px-2 py-1 text-xs text-amber-700">
+                  {issue}
+                </div>
+              ))}
             </div>
           );
         })}
@@ -245,6 +533,87 @@ export default function Toolbar({
     </div>
   );
 
+  const renderWallOptions = () => (
+    <div className="bg-white rounded-2xl shadow-lg p-3 w-40 space-y-2">
+      <span className="text-sm font-semibold text-slate-900">Angle lock</span>
+      <div className="grid grid-cols-2 gap-1" role="radiogroup" aria-label="Wall angle lock">
+        {WALL_ANGLE_LOCK_OPTIONS.map((option) => {
+          const isSelected = wallAngleLock === option;
+          return (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              onClick={() => onWallAngleLockChange?.(option)}
+              className={`rounded-lg px-2 py-1 text-xs font-medium transition ${
+                isSelected ? 'bg-blue-500 text-white shadow-sm' : 'text-slate-600 hover:bg-gray-100 cursor-pointer'
+              }`}
+            >
+              {option === 0 ? 'Free' : `${option}°`}
+            </button>
+          );
+        })}
+      </div>
+      <span className="block text-sm font-semibold text-slate-900">Segment</span>
+      <div className="grid grid-cols-2 gap-1" role="radiogroup" aria-label="Wall segment shape">
+        {[false, true].map((isArc) => {
+          const isSelected = wallArcMode === isArc;
+          return (
+            <button
+              key={isArc ? 'arc' : 'straight'}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              onClick={() => onWallArcModeChange?.(isArc)}
+              className={`rounded-lg px-2 py-1 text-xs font-medium transition ${
+                isSelected ? 'bg-blue-500 text-white shadow-sm' : 'text-slate-600 hover:bg-gray-100 cursor-pointer'
+              }`}
+            >
+              {isArc ? 'Arc' : 'Straight'}
+            </button>
+          );
+        })}
+      </div>
+      <span className="block text-sm font-semibold text-slate-900">Draw</span>
+      <div className="grid grid-cols-2 gap-1" role="radiogroup" aria-label="Wall or separator">
+        {[false, true].map((isSeparator) => {
+          const isSelected = wallSeparatorMode === isSeparator;
+          return (
+            <button
+              key={isSeparator ? 'separator' : 'wall'}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              onClick={() => onWallSeparatorModeChange?.(isSeparator)}
+              title={isSeparator ? 'Room boundary without a wall, e.g. between open-plan zones' : undefined}
+              className={`rounded-lg px-2 py-1 text-xs font-medium transition ${
+                isSelected ? 'bg-blue-500 text-white shadow-sm' : 'text-slate-600 hover:bg-gray-100 cursor-pointer'
+              }`}
+            >
+              {isSeparator ? 'Separator' : 'Wall'}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-slate-500 leading-relaxed">
+        {wallArcMode
+          ? 'Click the arc end, then click again to set its curve. Double-click or Enter to finish.'
+          : 'Click to add corners. Click the first corner to close, double-click or Enter to finish.'}
+      </p>
+    </div>
+  );
+
+  const renderDimensionMenu = () => (
+    <div className="bg-white rounded-2xl shadow-lg p-3 w-64 space-y-2">
+      <span className="text-sm font-semibold text-slate-900">Dimensions</span>
+      <p className="text-xs text-slate-500 leading-relaxed">
+        Click wall corners to chain measurements. Points snapped to a wall end follow that wall when it moves.
+        Double-click or press Enter to pin the chain, Esc to discard it.
+      </p>
+    </div>
+  );
+
   return (
     <div className="fixed left-4 top-1/2 transform -translate-y-1/2 z-10">
       <div className="flex gap-3 items-center">
@@ -278,12 +647,41 @@ export default function Toolbar({
           ))}
         </div>
 
-        {selectedTool === 'furniture' && renderItemGrid(furnitureItems, currentItem, onItemSelect, items)}
+        {selectedTool === 'furniture' && selectedRoom && suggestedFurnitureItems.length > 0 &&
+          renderItemGrid(suggestedFurnitureItems, currentItem, onItemSelect, items, `For ${selectedRoom.name}`)}
+
+        {selectedTool === 'furniture' && (
+          <FurniturePalette items={furnitureItems} currentItem={currentItem} onItemSelect={onItemSelect} />
+        )}
+
+        {selectedTool === 'furniture' && ((units && onUploadSymbol) || onInsertBlock) && (
+          <div className="flex flex-col gap-3">
+            {units && onUploadSymbol && (
+              <SymbolUploadForm units={units} isUploading={isUploadingSymbol} onUpload={onUploadSymbol} />
+            )}
+            {onInsertBlock && (
+              <BlockLibraryPanel blocks={furnitureBlocks} onInsertBlock={onInsertBlock} onDeleteBlock={onDeleteBlock} />
+            )}
+          </div>
+        )}
 
         {selectedTool === 'wall' && renderItemGrid(foundationalItems, currentItem, onItemSelect, items)}
 
+        {selectedTool === 'wall' && currentItem?.file === 'wall' && renderWallOptions()}
+
         {selectedTool === 'rooms' && renderRoomMenu()}
 
+        {selectedTool === 'dimensions' && renderDimensionMenu()}
+
+        {selectedTool === 'estimate' && costEstimate && units && (
+          <CostEstimatePanel
+            estimate={costEstimate}
+            units={units}
+            onUnitPriceChange={(key, unitPrice) => onUnitPriceChange?.(key, unitPrice)}
+            onCurrencyChange={(currency) => onCurrencyChange?.(currency)}
+          />
+        )}
+
       </div>
     </div>
   );
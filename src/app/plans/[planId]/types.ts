@@ -1,3 +1,28 @@
+export type UnitSystem = 'metric' | 'imperial';
+
+export interface PlanUnits {
+  system: UnitSystem;
+  pixelsPerMeter: number; // canvas pixels that represent one real-world metre
+}
+
+export const DEFAULT_PIXELS_PER_METER = 100;
+
+export const DEFAULT_PLAN_UNITS: PlanUnits = {
+  system: 'metric',
+  pixelsPerMeter: DEFAULT_PIXELS_PER_METER
+};
+
+// Physical footprint of a catalog item in metres (width along x, depth along y)
+export interface RealDimensions {
+  width: number;
+  depth: number;
+}
+
+export interface ParametricLimits {
+  width: [number, number]; // metres, min and max
+  depth: [number, number];
+}
+
 export interface Item {
   file: string;
   name: string;
@@ -8,6 +33,39 @@ export interface Item {
   inverted: boolean;
   rotation: number;
   scale: number;
+  dimensions?: RealDimensions;
+  parametric?: ParametricLimits; // width and depth can be resized independently within these limits
+  category?: CatalogCategory;
+  tags?: string[];
+  clearance?: Clearance;
+  price?: number; // default unit price for cost estimates
+  roomTypes?: RoomType[]; // rooms the item is suggested for
+  src?: string; // uploaded symbols only, catalog icons are served from public/icons
+}
+
+export type CatalogCategory =
+  | 'beds'
+  | 'seating'
+  | 'tables'
+  | 'kitchen'
+  | 'bathroom'
+  | 'office'
+  | 'storage'
+  | 'entertainment'
+  | 'stairs'
+  | 'utility'
+  | 'flooring'
+  | 'doors'
+  | 'windows'
+  | 'walls'
+  | 'custom';
+
+// Free space in metres kept around an item's footprint, e.g. to open a wardrobe or pull out a chair
+export interface Clearance {
+  front?: number;
+  back?: number;
+  left?: number;
+  right?: number;
 }
 
 export type WallAttachmentSubtype = 'door' | 'window';
@@ -19,8 +77,23 @@ export interface PlacedItem extends Omit<Item, 'file'> {
   y: number;
   roomId: string;
   attachedToWallId?: string;
+  stairsFrom?: { levelId: string; itemId: string }; // arrival of a staircase rising from the level below
+  group?: ItemGroup; // items in the same group are selected, moved and rotated together
 }
 
+export interface ItemGroup {
+  id: string;
+  name: string;
+}
+
+export const DEFAULT_WALL_THICKNESS_METERS = 0.16;
+export const DEFAULT_WALL_HEIGHT_METERS = 2.4;
+
+export type WallMaterial = 'drywall' | 'brick' | 'concrete' | 'glass';
+export type WallLayer = 'interior' | 'exterior';
+
+export const DEFAULT_WALL_MATERIAL: WallMaterial = 'drywall';
+
 export interface WallItem {
   id: string;
   type: 'wall';
@@ -29,18 +102,89 @@ export interface WallItem {
   endX: number;
   endY: number;
   thickness: number;
+  bulge?: number; // arc walls: tan(sweep / 4), 0 or undefined for straight walls
+  height?: number; // metres
+  material?: WallMaterial;
+  layer?: WallLayer;
+  loadBearing?: boolean;
+  separator?: boolean; // virtual room boundary with no physical wall, drawn dashed at zero thickness
   roomIds?: string[];
 }
 
-export type PlacedEntity = PlacedItem | WallItem;
+export type DimensionAnchor =
+  | {
+      kind: 'wall';
+      wallId: string;
+      endpoint: 'start' | 'end';
+    }
+  | {
+      kind: 'point';
+      x: number;
+      y: number;
+    };
+
+// A pinned chain of measurements between consecutive anchors
+export interface DimensionItem {
+  id: string;
+  type: 'dimension';
+  anchors: DimensionAnchor[];
+  offset: number; // perpendicular distance of the dimension line from the measured points
+}
+
+export type PlacedEntity = PlacedItem | WallItem | DimensionItem;
+
+export const isPlacedItem = (entity: PlacedEntity): entity is PlacedItem =>
+  entity.type === 'furniture' || entity.type === 'foundational';
 
 
 export const NOT_IN_ROOM_ID = 'room-unassigned';
 
-export type FlooringType = 'floor_tile' | 'floor_wood' | 'floor_stone' | 'floor_carpet';
+export type BuiltInFlooringType = 'floor_tile' | 'floor_wood' | 'floor_stone' | 'floor_carpet';
+
+// Textures uploaded to the plan's material library are referenced by their material id
+export type FlooringType = BuiltInFlooringType | `material-${string}`;
+
+export interface FlooringMaterial {
+  id: `material-${string}`;
+  name: string;
+  url: string;
+  tileSize: number; // metres covered by one repeat of the texture
+}
+
+// An SVG symbol uploaded to the plan owner's library, offered alongside the catalog
+export interface CustomSymbol {
+  file: `symbol-${string}`;
+  name: string;
+  url: string;
+  width: number; // SVG size in pixels
+  height: number;
+  dimensions: RealDimensions;
+}
+
+// A saved furniture group in the plan owner's library that can be inserted into any of their plans
+export interface FurnitureBlock {
+  id: string;
+  name: string;
+  items: BlockItem[];
+}
+
+export type BlockItem = Omit<PlacedItem, 'id' | 'x' | 'y' | 'roomId' | 'attachedToWallId' | 'stairsFrom' | 'group'> & {
+  dimensions: RealDimensions;
+  offset: { x: number; y: number }; // metres from the block's centre
+};
 
 export const DEFAULT_ROOM_FLOORING: FlooringType = 'floor_wood';
 
+export type RoomType =
+  | 'bedroom'
+  | 'bathroom'
+  | 'kitchen'
+  | 'living'
+  | 'circulation'
+  | 'utility'
+  | 'garage'
+  | 'outdoor';
+
 export interface RoomWallReference {
   wallId: string;
   direction?: 'forward' | 'reverse';
@@ -51,7 +195,11 @@ export interface RoomDefinition {
   name: string;
   walls: RoomWallReference[];
   flooring: FlooringType;
+  flooringScale?: number; // pattern size multiplier, 1 when unset
+  flooringRotation?: number; // pattern rotation in degrees
+  roomType?: RoomType;
   color?: string;
+  labelPosition?: { x: number; y: number }; // set when the label has been dragged off its default spot
 }
 
 export type RoomBoundarySegment =
@@ -71,10 +219,18 @@ export interface ComputedRoom {
   id: string;
   name: string;
   flooring: FlooringType;
+  flooringScale: number;
+  flooringRotation: number;
+  roomType?: RoomType;
   color?: string;
   segments: RoomBoundarySegment[];
   polygonPoints: number[]; // flattened array [x1, y1, x2, y2, ...]
+  holes: number[][]; // outlines of rooms nested inside this one, cut out of its floor
   centroid: { x: number; y: number } | null;
+  labelPoint: { x: number; y: number } | null; // always inside the polygon, outside its holes
+  area: number; // square pixels, measured to the wall centrelines, less the holes
+  perimeter: number; // pixels, including the outlines of the holes
+  usableArea: number; // square pixels inside the wall faces
 }
 
 
@@ -85,9 +241,29 @@ export interface GroupTransformation {
   scale: number;
 }
 
-export interface PlanSnapshot {
+export interface PlanLevel {
+  id: string;
+  name: string;
+  elevation: number; // storeys above the ground floor, negative for basements
   placedEntities: PlacedEntity[];
   roomDefinitions: RoomDefinition[];
+}
+
+// Unit prices keyed by quantity line: `flooring:<flooring>` and `wall:<material>` per square
+// metre, `item:<file>` per item
+export interface PriceTable {
+  currency: string; // ISO 4217 code
+  unitPrices: Record<string, number>;
+}
+
+export interface PlanSnapshot {
+  placedEntities: PlacedEntity[]; // the active level, also stored in `levels`
+  roomDefinitions: RoomDefinition[];
+  units: PlanUnits;
+  levels?: PlanLevel[];
+  activeLevelId?: string;
+  materials?: FlooringMaterial[]; // flooring textures shared by every level
+  prices?: PriceTable;
   [key: string]: any;
 }
 
@@ -105,5 +281,6 @@ export const createInitialRoomDefinitions = (): RoomDefinition[] => [
 
 export const createInitialPlanSnapshot = (): PlanSnapshot => ({
   placedEntities: [],
-  roomDefinitions: createInitialRoomDefinitions()
+  roomDefinitions: createInitialRoomDefinitions(),
+  units: { ...DEFAULT_PLAN_UNITS }
 });
@@ -1,6 +1,7 @@
 import { Agent } from '@mastra/core/agent';
 import { floorPlanTools } from '../tools/floorPlanTools';
 import { openai } from '@ai-sdk/openai';
+import { describeCatalog, getCatalogFiles } from '../../../../utils/catalog';
 
 const ARCHITECTURAL_EXPERT_PROMPT = `You are an expert architectural and floor plan designer with decades of experience in residential, commercial, and institutional building design. You have deep expertise in:
 
@@ -29,22 +30,12 @@ const ARCHITECTURAL_EXPERT_PROMPT = `You are an expert architectural and floor p
 
 **AVAILABLE ICONS AND ELEMENTS:**
 **Foundational Elements:**
-- Doors: door, door_2
-- Windows: window, window_2, window_3
+- Doors: ${getCatalogFiles({ subtype: 'door' }).join(', ')}
+- Windows: ${getCatalogFiles({ subtype: 'window' }).join(', ')}
 - Walls: Created via line segments (not icons)
 
 **Furniture Categories:**
-- Beds: bed_double, bed_king, bed_twin
-- Seating: sofa_2, sofa_3, sofa_3_loft, sofa_4, sofa_4_l, sofa_4_round, sofa_5, sofa_6_c, sofa_8_c, chair_dining, chair_ergonomic, chair_special, chair_stool, lounge, ottoman, ottoman_round
-- Tables: dining_table_4, dining_table_4_round, dining_table_6, dining_table_6_round, table_coffee, table_coffee_round, table_coffee_round_half, table_large_coffee, table_large_coffee_round, table_wide
-- Kitchen: fridge, fridge_wide, stove, stove_large, kitchen_sink, kitchen_sink_corner, kitchen_sink_wide, dish_washer
-- Bathroom: bathroom_sink, bathroom_sink_corner, bathroom_sink_double, bathroom_sink_special, toilet, bath, bath_middle, shower, shower_corner, shower_corner_round
-- Office: office_desk, office_desk_corner, office_desk_special
-- Storage: bookshelf, bookshelf_l, dresser, dresser_wide, nightstand, nightstand_left, nightstand_right, cabinet, cabinet_corner, cabinet_hanging, storage, storage_wide, wardrobe, wardrobe_l, wardrobe_long, wardrobe_wide
-- Entertainment: tv_stand, tv_stand_wide, speaker
-- Stairs: stairs, stairs_c, stairs_double, stairs_l, stairs_round
-- Utility: laundry_ironboard, laundry_washing
-- Flooring: floor_wood, floor_tile, floor_carpet, floor_stone
+${describeCatalog('furniture')}
 
 **DESIGN PROCESS:**
 1. **Room Creation**: Start by analyzing the input to understand the overall layout, then create room polygons with proper cyclical coordinates. Consider typical room relationships and sizes.
@@ -61,8 +52,9 @@ const ARCHITECTURAL_EXPERT_PROMPT = `You are an expert architectural and floor p
    - Practical considerations (plumbing for bathrooms/kitchens, etc.)
 
 **COORDINATE SYSTEM GUIDELINES:**
-- Use a relative coordinate system with consistent scaling
-- Wall thickness should be 16 units
+- Use a relative coordinate system with consistent scaling: 100 units equal 1 metre
+- Wall thickness should be 16 units (16 cm)
+- Size furniture to its real footprint at that scale (a king bed is roughly 193 x 203 units)
 - Consider room proportions realistic to actual architecture
 - Ensure objects fit properly within their assigned rooms
 - Use rotation, scaling, and inversion to optimize placement
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { Tool } from '@mastra/core/tools';
+import { getCatalogFiles } from '../../../../utils/catalog';
 
 // ============================================
 // COORDINATE SYSTEM SCHEMAS
@@ -133,8 +134,8 @@ export const createDoorsWindowsTool = new Tool({
   schema: z.object({
     doorsAndWindows: z.array(DoorWindowSchema),
     availableIcons: z.object({
-      doors: z.array(z.string()).default(['door', 'door_2']),
-      windows: z.array(z.string()).default(['window', 'window_2', 'window_3']),
+      doors: z.array(z.string()).default(getCatalogFiles({ subtype: 'door' })),
+      windows: z.array(z.string()).default(getCatalogFiles({ subtype: 'window' })),
     }).optional(),
   }),
   execute: async ({ doorsAndWindows, availableIcons }) => {
@@ -161,14 +162,8 @@ export const createObjectsTool = new Tool({
   schema: z.object({
     objects: z.array(ObjectSchema),
     availableIcons: z.object({
-      furniture: z.array(z.string()).default([
-        'bed_double', 'bed_king', 'bed_twin', 'sofa_2', 'sofa_3', 'sofa_4',
-        'dining_table_4', 'dining_table_6', 'chair_dining', 'chair_ergonomic',
-        'office_desk', 'office_desk_corner', 'fridge', 'stove', 'kitchen_sink',
-        'bathroom_sink', 'toilet', 'bath', 'shower', 'tv_stand', 'bookshelf',
-        'dresser', 'nightstand', 'cabinet', 'storage', 'table_coffee'
-      ]),
-      foundational: z.array(z.string()).default(['stairs', 'stairs_l', 'stairs_c']),
+      furniture: z.array(z.string()).default(getCatalogFiles({ type: 'furniture' })),
+      foundational: z.array(z.string()).default(getCatalogFiles({ category: 'stairs' })),
     }).optional(),
   }),
   execute: async ({ objects, availableIcons }) => {
@@ -0,0 +1,51 @@
+"use client";
+
+import React from 'react';
+import { FiPlus, FiTrash2 } from 'react-icons/fi';
+import { FurnitureBlock } from '@/app/plans/[planId]/types';
+
+interface BlockLibraryPanelProps {
+  blocks: FurnitureBlock[];
+  onInsertBlock: (block: FurnitureBlock) => void;
+  onDeleteBlock?: (blockId: string) => void;
+}
+
+export default function BlockLibraryPanel({ blocks, onInsertBlock, onDeleteBlock }: BlockLibraryPanelProps) {
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-3 w-56 space-y-2 text-xs text-slate-600">
+      <div className="text-xs font-semibold text-slate-700">Blocks</div>
+      {blocks.length === 0 ? (
+        <p className="text-[11px] text-slate-500">Group furniture and save it as a block to reuse it in any of your plans.</p>
+      ) : (
+        <ul className="space-y-1 max-h-48 overflow-y-auto furniture-menu-scroll">
+          {blocks.map((block) => (
+            <li key={block.id} className="group flex items-center gap-1">
+              <button
+                type="button"
+                onClick={() => onInsertBlock(block)}
+                className="flex flex-1 items-center justify-between gap-2 rounded-lg px-2 py-1 text-left hover:bg-gray-100 hover:text-blue-600"
+                title="Insert in the middle of the view"
+              >
+                <span className="truncate font-medium">{block.name}</span>
+                <span className="flex shrink-0 items-center gap-1 text-[11px] text-slate-400">
+                  {block.items.length}
+                  <FiPlus className="h-3 w-3" />
+                </span>
+              </button>
+              {onDeleteBlock && (
+                <button
+                  type="button"
+                  onClick={() => onDeleteBlock(block.id)}
+                  className="rounded p-1 text-slate-300 opacity-0 hover:text-red-500 group-hover:opacity-100"
+                  title="Remove from library"
+                >
+                  <FiTrash2 className="h-3 w-3" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { FiDownload } from 'react-icons/fi';
+import { PlanUnits } from '@/app/plans/[planId]/types';
+import {
+  CURRENCIES,
+  CostEstimate,
+  QUANTITY_CATEGORIES,
+  QuantityLine,
+  buildCostEstimateCsv,
+  displayQuantity,
+  displayUnitPrice,
+  formatCurrency,
+  quantityUnitLabel,
+  unitPriceFromDisplay
+} from '@/utils/costEstimate';
+
+interface CostEstimatePanelProps {
+  estimate: CostEstimate;
+  units: PlanUnits;
+  onUnitPriceChange: (key: string, unitPrice: number) => void;
+  onCurrencyChange: (currency: string) => void;
+}
+
+interface UnitPriceInputProps {
+  line: QuantityLine;
+  units: PlanUnits;
+  onChange: (unitPrice: number) => void;
+}
+
+function UnitPriceInput({ line, units, onChange }: UnitPriceInputProps) {
+  const price = Number(displayUnitPrice(line, units.system).toFixed(2));
+  const [draft, setDraft] = useState(() => String(price));
+
+  useEffect(() => {
+    setDraft(String(price));
+  }, [price]);
+
+  const commit = () => {
+    const parsed = parseFloat(draft);
+    const next = Number.isFinite(parsed) && parsed >= 0 ? parsed : price;
+    setDraft(String(next));
+    if (next !== price) {
+      onChange(unitPriceFromDisplay(line, next, units.system));
+    }
+  };
+
+  return (
+    <input
+      value={draft}
+      inputMode="decimal"
+      aria-label={`Unit price for ${line.label}`}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        event.stopPropagation();
+        if (event.key === 'Enter') {
+          commit();
+        }
+      }}
+      className="w-16 rounded-md border border-slate-200 px-1.5 py-0.5 text-right font-medium text-slate-700 outline-none focus:border-blue-400"
+    />
+  );
+}
+
+export default function CostEstimatePanel({ estimate, units, onUnitPriceChange, onCurrencyChange }: CostEstimatePanelProps) {
+  const handleExport = () => {
+    const csv = buildCostEstimateCsv(estimate, units);
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'cost-estimate.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const formatQuantity = (line: QuantityLine) => {
+    const quantity = displayQuantity(line, units.system);
+    const value = line.unit === 'area' ? quantity.toFixed(units.system === 'imperial' ? 0 : 1) : String(quantity);
+    return `${value} ${quantityUnitLabel(line, units.system)}`;
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-3 w-96 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-slate-900">Cost estimate</span>
+        <div className="flex items-center gap-1">
+          <select
+            value={estimate.currency}
+            onChange={(event) => onCurrencyChange(event.target.value)}
+            className="rounded-lg border border-slate-200 px-1.5 py-1 text-xs font-medium text-slate-600 outline-none focus:border-blue-400"
+            aria-label="Currency"
+          >
+            {CURRENCIES.map((currency) => (
+              <option key={currency} value={currency}>{currency}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={estimate.lines.length === 0}
+            className="flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <FiDownload className="h-3.5 w-3.5" />
+            <span>Export CSV</span>
+          </button>
+        </div>
+      </div>
+
+      {estimate.lines.length === 0 ? (
+        <p className="text-xs text-slate-500">Nothing to estimate yet. Draw walls, outline rooms or place furniture.</p>
+      ) : (
+        <div className="max-h-[420px] overflow-y-auto furniture-menu-scroll pr-1">
+          <table className="w-full text-xs text-slate-600">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="py-1 font-medium">Item</th>
+                <th className="py-1 font-medium text-right">Quantity</th>
+                <th className="py-1 font-medium text-right">Unit price</th>
+                <th className="py-1 font-medium text-right">Cost</th>
+              </tr>
+            </thead>
+            {QUANTITY_CATEGORIES.map((category) => {
+              const lines = estimate.lines.filter((line) => line.category === category.id);
+              if (lines.length === 0) return null;
+
+              return (
+                <tbody key={category.id}>
+                  <tr className="border-t border-slate-200">
+                    <td colSpan={4} className="pt-2 pb-1 font-semibold text-slate-700">{category.label}</td>
+                  </tr>
+                  {lines.map((line) => (
+                    <tr key={line.key} className="border-t border-slate-100">
+                      <td className="py-1 font-medium text-slate-700">{line.label}</td>
+                      <td className="py-1 text-right whitespace-nowrap">{formatQuantity(line)}</td>
+                      <td className="py-1 text-right">
+                        <UnitPriceInput
+                          line={line}
+                          units={units}
+                          onChange={(unitPrice) => onUnitPriceChange(line.key, unitPrice)}
+                        />
+                      </td>
+                      <td className="py-1 text-right whitespace-nowrap">{formatCurrency(line.cost, estimate.currency)}</td>
+                    </tr>
+                  ))}
+                  <tr className="border-t border-slate-100 text-slate-500">
+                    <td colSpan={3} className="py-1">{category.label} subtotal</td>
+                    <td className="py-1 text-right whitespace-nowrap">
+                      {formatCurrency(estimate.subtotals[category.id], estimate.currency)}
+                    </td>
+                  </tr>
+                </tbody>
+              );
+            })}
+            <tfoot>
+              <tr className="border-t border-slate-300 font-semibold text-slate-800">
+                <td colSpan={3} className="py-1">Total</td>
+                <td className="py-1 text-right whitespace-nowrap">{formatCurrency(estimate.total, estimate.currency)}</td>
+              </tr>
+            </tfoot>
+          </table>
+          <p className="pt-2 text-[11px] text-slate-400">
+            Area prices are per {units.system === 'imperial' ? 'ft²' : 'm²'}. Wall areas count one face at full height.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
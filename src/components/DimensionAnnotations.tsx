@@ -0,0 +1,140 @@
+import React from 'react';
+import { Group, Label, Line, Tag, Text } from 'react-konva';
+import { PlanUnits } from '@/app/plans/[planId]/types';
+import { Point } from '@/app/lib/types';
+import { buildDimensionGeometry, displayAngle, readableTextAngle } from '@/utils/dimensions';
+import { formatLength } from '@/utils/units';
+
+const DEFAULT_DIMENSION_COLOR = '#0f766e';
+
+interface MeasurementLabelProps {
+  x: number;
+  y: number;
+  text: string;
+  scale: number;
+  rotation?: number;
+  color?: string;
+}
+
+export function MeasurementLabel({
+  x,
+  y,
+  text,
+  scale,
+  rotation = 0,
+  color = DEFAULT_DIMENSION_COLOR
+}: MeasurementLabelProps) {
+  const fontSize = 11 / scale;
+  const padding = 3 / scale;
+  // Approximate text box so the label can be centred on its anchor point
+  const approxWidth = text.length * fontSize * 0.6 + padding * 2;
+  const approxHeight = fontSize + padding * 2;
+
+  return (
+    <Label
+      x={x}
+      y={y}
+      rotation={readableTextAngle(rotation)}
+      offsetX={approxWidth / 2}
+      offsetY={approxHeight / 2}
+      listening={false}
+    >
+      <Tag fill="rgba(255, 255, 255, 0.9)" cornerRadius={3 / scale} stroke={color} strokeWidth={0.5 / scale} />
+      <Text text={text} fontSize={fontSize} padding={padding} fill={color} fontStyle="bold" />
+    </Label>
+  );
+}
+
+interface DimensionChainShapeProps {
+  points: Point[];
+  offset: number;
+  scale: number;
+  units: PlanUnits;
+  color?: string;
+  opacity?: number;
+  showAngle?: boolean;
+}
+
+export function DimensionChainShape({
+  points,
+  offset,
+  scale,
+  units,
+  color = DEFAULT_DIMENSION_COLOR,
+  opacity = 1,
+  showAngle = false
+}: DimensionChainShapeProps) {
+  const geometry = React.useMemo(() => buildDimensionGeometry(points, offset), [points, offset]);
+  if (!geometry) return null;
+
+  const strokeWidth = 1 / scale;
+  const tickSize = 5 / scale;
+  const labelGap = 9 / scale;
+  const { normal, ticks, extensions, segments, total } = geometry;
+  const showTotal = segments.length > 1;
+
+  const labelFor = (start: Point, end: Point, length: number) => {
+    const lengthText = formatLength(length, units);
+    return showAngle ? `${lengthText} · ${Math.round(displayAngle(start, end))}°` : lengthText;
+  };
+
+  return (
+    <Group opacity={opacity} listening={false}>
+      {extensions.map(({ from, to }, index) => (
+        <Line
+          key={`extension-${index}`}
+          points={[from.x, from.y, to.x + normal.x * tickSize, to.y + normal.y * tickSize]}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          dash={[3 / scale, 3 / scale]}
+          listening={false}
+        />
+      ))}
+
+      <Line
+        points={[total.start.x, total.start.y, total.end.x, total.end.y]}
+        stroke={color}
+        strokeWidth={strokeWidth}
+        listening={false}
+      />
+
+      {ticks.map((tick, index) => (
+        <Line
+          key={`tick-${index}`}
+          points={[
+            tick.x - (normal.x + normal.y) * tickSize * 0.7,
+            tick.y - (normal.y - normal.x) * tickSize * 0.7,
+            tick.x + (normal.x + normal.y) * tickSize * 0.7,
+            tick.y + (normal.y - normal.x) * tickSize * 0.7
+          ]}
+          stroke={color}
+          strokeWidth={strokeWidth * 1.5}
+          listening={false}
+        />
+      ))}
+
+      {segments.map((segment, index) => (
+        <MeasurementLabel
+          key={`label-${index}`}
+          x={segment.mid.x + normal.x * labelGap}
+          y={segment.mid.y + normal.y * labelGap}
+          rotation={segment.angle}
+          text={labelFor(points[index], points[index + 1], segment.length)}
+          scale={scale}
+          color={color}
+        />
+      ))}
+
+      {showTotal && (
+        <MeasurementLabel
+          x={total.mid.x + normal.x * labelGap * 3}
+          y={total.mid.y + normal.y * labelGap * 3}
+          rotation={total.angle}
+          text={`Σ ${formatLength(total.length, units)}`}
+          scale={scale}
+          color={color}
+        />
+      )}
+    </Group>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { clampFlooringScale } from '@/utils/flooring';
+
+interface FlooringPatternControlsProps {
+  scale: number;
+  rotation: number; // degrees
+  disabled?: boolean;
+  onChange: (pattern: { flooringScale: number; flooringRotation: number }) => void;
+}
+
+export default function FlooringPatternControls({ scale, rotation, disabled = false, onChange }: FlooringPatternControlsProps) {
+  const [scaleDraft, setScaleDraft] = useState(() => String(scale));
+  const [rotationDraft, setRotationDraft] = useState(() => String(rotation));
+
+  useEffect(() => {
+    setScaleDraft(String(scale));
+  }, [scale]);
+
+  useEffect(() => {
+    setRotationDraft(String(rotation));
+  }, [rotation]);
+
+  const commit = () => {
+    const parsedScale = parseFloat(scaleDraft);
+    const parsedRotation = parseFloat(rotationDraft);
+    const nextScale = Number.isFinite(parsedScale) && parsedScale > 0 ? clampFlooringScale(parsedScale) : scale;
+    const nextRotation = Number.isFinite(parsedRotation) ? ((parsedRotation % 360) + 360) % 360 : rotation;
+
+    setScaleDraft(String(nextScale));
+    setRotationDraft(String(nextRotation));
+    if (nextScale !== scale || nextRotation !== rotation) {
+      onChange({ flooringScale: nextScale, flooringRotation: nextRotation });
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    event.stopPropagation();
+    if (event.key === 'Enter') {
+      commit();
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2 text-xs text-slate-600">
+      <label className="flex items-center gap-1" title="Size of the flooring pattern">
+        <span>Scale</span>
+        <input
+          value={scaleDraft}
+          inputMode="decimal"
+          disabled={disabled}
+          onChange={(event) => setScaleDraft(event.target.value)}
+          onBlur={commit}
+          onKeyDown={handleKeyDown}
+          className="w-full rounded-md border border-slate-200 px-2 py-1 text-right font-medium text-slate-700 outline-none focus:border-blue-400 disabled:cursor-not-allowed disabled:bg-slate-100"
+        />
+        <span>×</span>
+      </label>
+      <label className="flex items-center gap-1" title="Rotation of the flooring pattern">
+        <span>Angle</span>
+        <input
+          value={rotationDraft}
+          inputMode="decimal"
+          disabled={disabled}
+          onChange={(event) => setRotationDraft(event.target.value)}
+          onBlur={commit}
+          onKeyDown={handleKeyDown}
+          className="w-full rounded-md border border-slate-200 px-2 py-1 text-right font-medium text-slate-700 outline-none focus:border-blue-400 disabled:cursor-not-allowed disabled:bg-slate-100"
+        />
+        <span>°</span>
+      </label>
+    </div>
+  );
+}
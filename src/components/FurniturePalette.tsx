@@ -0,0 +1,160 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import Image from 'next/image';
+import { FiSearch, FiStar, FiX } from 'react-icons/fi';
+import { CatalogCategory, Item } from '@/app/plans/[planId]/types';
+import { CATALOG_CATEGORIES, getIconSource } from '@/utils/catalog';
+import { PALETTE_DRAG_TYPE, itemsForFiles, searchItems } from '@/utils/palette';
+import { usePalettePreferences } from '@/hooks/usePalettePreferences';
+
+type PaletteTab = 'all' | 'favorites' | 'recent' | CatalogCategory;
+
+interface FurniturePaletteProps {
+  items: Item[];
+  currentItem: Item | null;
+  onItemSelect: (item: Item | null) => void;
+}
+
+export default function FurniturePalette({ items, currentItem, onItemSelect }: FurniturePaletteProps) {
+  const { recent, favorites, markUsed, toggleFavorite } = usePalettePreferences();
+  const [query, setQuery] = useState('');
+  const [tab, setTab] = useState<PaletteTab>('all');
+
+  const tabs = useMemo((): { id: PaletteTab; label: string }[] => [
+    { id: 'all', label: 'All' },
+    { id: 'favorites', label: 'Favourites' },
+    { id: 'recent', label: 'Recent' },
+    ...CATALOG_CATEGORIES.filter((category) => items.some((item) => item.category === category.id))
+  ], [items]);
+
+  const visibleItems = useMemo(() => {
+    // A search looks through the whole palette rather than the open tab
+    if (query.trim()) return searchItems(items, query);
+
+    switch (tab) {
+      case 'all':
+        return items;
+      case 'favorites':
+        return itemsForFiles(items, favorites);
+      case 'recent':
+        return itemsForFiles(items, recent);
+      default:
+        return items.filter((item) => item.category === tab);
+    }
+  }, [items, query, tab, favorites, recent]);
+
+  const emptyMessage = query.trim()
+    ? 'Nothing matches this search.'
+    : tab === 'favorites'
+      ? 'Star items to keep them here.'
+      : tab === 'recent'
+        ? 'Items you place show up here.'
+        : 'No items in this category.';
+
+  const handleSelect = (item: Item) => {
+    if (currentItem?.file === item.file) {
+      onItemSelect(null);
+      return;
+    }
+    markUsed(item.file);
+    onItemSelect(item);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-2 w-72 space-y-2">
+      <label className="flex items-center gap-2 rounded-lg border border-slate-200 px-2 py-1 focus-within:border-blue-400">
+        <FiSearch className="h-3.5 w-3.5 text-slate-400" />
+        <input
+          value={query}
+          placeholder="Search furniture"
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={(event) => {
+            event.stopPropagation();
+            if (event.key === 'Escape') setQuery('');
+          }}
+          className="w-full text-xs text-slate-700 outline-none"
+        />
+        {query && (
+          <button type="button" onClick={() => setQuery('')} className="text-slate-400 hover:text-slate-600" title="Clear search">
+            <FiX className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </label>
+
+      {!query.trim() && (
+        <div className="flex gap-1 overflow-x-auto furniture-menu-scroll pb-1" role="tablist" aria-label="Furniture categories">
+          {tabs.map((entry) => (
+            <button
+              key={entry.id}
+              type="button"
+              role="tab"
+              aria-selected={tab === entry.id}
+              onClick={() => setTab(entry.id)}
+              className={`shrink-0 rounded-lg px-2 py-1 text-xs font-medium transition ${
+                tab === entry.id ? 'bg-blue-500 text-white shadow-sm' : 'text-slate-600 hover:bg-gray-100 cursor-pointer'
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visibleItems.length === 0 ? (
+        <p className="px-1 py-4 text-center text-xs text-slate-500">{emptyMessage}</p>
+      ) : (
+        <div className="grid grid-cols-3 gap-1 max-h-[420px] overflow-y-auto furniture-menu-scroll">
+          {visibleItems.map((item) => {
+            const isSelected = currentItem?.file === item.file;
+            const isFavorite = favorites.includes(item.file);
+            return (
+              <div key={item.file} className="group relative">
+                <button
+                  type="button"
+                  draggable
+                  onDragStart={(event) => {
+                    event.dataTransfer.setData(PALETTE_DRAG_TYPE, item.file);
+                    event.dataTransfer.effectAllowed = 'copy';
+                    markUsed(item.file);
+                  }}
+                  onClick={() => handleSelect(item)}
+                  title={item.name}
+                  className={`flex h-20 w-full flex-col items-center justify-center gap-1 rounded-xl px-1 text-gray-600 transition-all duration-200 cursor-pointer ${
+                    isSelected ? 'bg-blue-500/10 border border-blue-500 text-blue-500' : 'hover:bg-gray-100 hover:text-blue-500'
+                  }`}
+                >
+                  <div className="h-8 w-8 flex items-center justify-center">
+                    <Image
+                      src={getIconSource(item)}
+                      alt=""
+                      className="max-h-8 w-8 h-auto object-contain"
+                      height={0}
+                      width={0}
+                      sizes="100vw"
+                      draggable={false}
+                      unoptimized={Boolean(item.src)}
+                    />
+                  </div>
+                  <span className="line-clamp-2 text-center text-[10px] leading-tight">{item.name}</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => toggleFavorite(item.file)}
+                  className={`absolute right-1 top-1 rounded p-0.5 ${
+                    isFavorite ? 'text-amber-500' : 'text-slate-300 opacity-0 group-hover:opacity-100 hover:text-amber-500'
+                  }`}
+                  title={isFavorite ? 'Remove from favourites' : 'Add to favourites'}
+                  aria-pressed={isFavorite}
+                >
+                  <FiStar className="h-3 w-3" fill={isFavorite ? 'currentColor' : 'none'} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <p className="px-1 text-[11px] text-slate-400">Click an item to place it, or drag it onto the plan.</p>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { FiBookmark, FiLayers } from 'react-icons/fi';
+import { ItemGroup, PlacedItem } from '@/app/plans/[planId]/types';
+
+interface GroupInspectorProps {
+  items: PlacedItem[];
+  group: ItemGroup | null; // set when the selection is exactly one group
+  canGroup: boolean;
+  isSavingBlock?: boolean;
+  onGroup: (name: string) => void;
+  onUngroup: () => void;
+  onRenameGroup: (name: string) => void;
+  onSaveBlock?: (name: string) => void;
+}
+
+export default function GroupInspector({
+  items,
+  group,
+  canGroup,
+  isSavingBlock = false,
+  onGroup,
+  onUngroup,
+  onRenameGroup,
+  onSaveBlock
+}: GroupInspectorProps) {
+  const [name, setName] = useState(group?.name ?? '');
+
+  useEffect(() => {
+    setName(group?.name ?? '');
+  }, [group?.id, group?.name]);
+
+  if (!group && items.length < 2) {
+    return null;
+  }
+
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (group && trimmed && trimmed !== group.name) {
+      onRenameGroup(trimmed);
+    } else if (group) {
+      setName(group.name);
+    }
+  };
+
+  return (
+    <div className="fixed top-20 right-4 z-10">
+      <div className="bg-white rounded-2xl shadow-lg p-3 w-56 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-semibold text-slate-900">{group ? 'Group' : `${items.length} items`}</span>
+          {group && <span className="text-xs text-slate-500">{items.length} items</span>}
+        </div>
+
+        <input
+          value={name}
+          placeholder={group ? 'Group name' : 'Name, e.g. Dining set'}
+          onChange={(event) => setName(event.target.value)}
+          onBlur={commitName}
+          onKeyDown={(event) => {
+            event.stopPropagation();
+            if (event.key === 'Enter') {
+              if (group) {
+                commitName();
+              } else if (canGroup) {
+                onGroup(name);
+              }
+            }
+          }}
+          className="w-full rounded-md border border-slate-200 px-2 py-1 text-xs font-medium text-slate-700 outline-none focus:border-blue-400"
+        />
+
+        {group ? (
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              type="button"
+              onClick={onUngroup}
+              className="flex items-center justify-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-600"
+            >
+              <FiLayers className="h-3.5 w-3.5" />
+              <span>Ungroup</span>
+            </button>
+            {onSaveBlock && (
+              <button
+                type="button"
+                onClick={() => onSaveBlock(name)}
+                disabled={isSavingBlock}
+                className="flex items-center justify-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+                title="Save this group to your block library"
+              >
+                <FiBookmark className="h-3.5 w-3.5" />
+                <span>{isSavingBlock ? 'Saving…' : 'Save block'}</span>
+              </button>
+            )}
+          </div>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={() => onGroup(name)}
+              disabled={!canGroup}
+              className="flex w-full items-center justify-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <FiLayers className="h-3.5 w-3.5" />
+              <span>Group</span>
+            </button>
+            {!canGroup && (
+              <p className="text-[11px] text-slate-500">Only furniture can be grouped. Doors, windows and stair arrivals stay with the plan.</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
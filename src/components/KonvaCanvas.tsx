@@ -1,18 +1,43 @@
 import React from 'react';
 import { Stage, Layer, Line, Circle, Group, Rect } from 'react-konva';
 import type { Stage as KonvaStage } from 'konva/lib/Stage';
+import type { KonvaEventObject } from 'konva/lib/Node';
 import { PlacedIcon } from '@/app/plans/[planId]/IconComponents';
 import {
   PlacedEntity,
   PlacedItem,
   WallItem,
+  DimensionItem,
   Item,
   ComputedRoom,
   NOT_IN_ROOM_ID,
-  FlooringType
+  FlooringMaterial,
+  FlooringType,
+  PlanUnits,
+  isPlacedItem
 } from '@/app/plans/[planId]/types';
+import { Point } from '@/app/lib/types';
 import { getItemLayer, ItemLayer } from '@/utils/layering';
 import { RoomBuilderState } from '@/utils/roomBuilder';
+import { RoomProposal } from '@/utils/roomDetection';
+import { DEFAULT_DIMENSION_OFFSET, resolveDimensionPoints } from '@/utils/dimensions';
+import { formatArea, formatLength } from '@/utils/units';
+import { tessellateWall } from '@/utils/wallArcs';
+import { WALL_MATERIAL_STYLES, getWallProperties } from '@/utils/wallProperties';
+import { buildWallOutlines } from '@/utils/wallOutline';
+import { FLOORING_PATTERN_SOURCES, findFlooringMaterial } from '@/utils/flooring';
+import { DimensionChainShape, MeasurementLabel } from './DimensionAnnotations';
+import { LevelGhost } from './LevelGhost';
+import { RoomArea } from './RoomArea';
+import { WallHatch } from './WallHatch';
+import { RoomLabel } from './RoomLabel';
+
+const WALL_EDGE_COLOR = '#111827';
+const SEPARATOR_COLOR = '#64748b';
+// Screen pixels, divided by the stage scale when drawn
+const SEPARATOR_WIDTH = 1.5;
+const SEPARATOR_DASH = 8;
+const SEPARATOR_GAP = 6;
 
 function hexToRgba(hex: string, alpha: number): string {
   const normalized = hex.replace('#', '');
@@ -31,24 +56,25 @@ function hexToRgba(hex: string, alpha: number): string {
   return `rgba(${r}, ${g}, ${b}, ${alpha})`;
 }
 
-const FLOORING_PATTERN_SOURCES: Record<FlooringType, string> = {
-  floor_tile: '/icons/furniture/floor_tile.svg',
-  floor_wood: '/icons/furniture/floor_wood.svg',
-  floor_stone: '/icons/furniture/floor_stone.svg',
-  floor_carpet: '/icons/furniture/floor_carpet.svg'
-};
-
 interface KonvaCanvasProps {
   width: number;
   height: number;
   scale: number;
   position: { x: number; y: number };
   placedEntities: PlacedEntity[];
+  ghostEntities?: PlacedEntity[]; // level below the active one, drawn faintly for alignment
   rooms: ComputedRoom[];
+  flooringMaterials?: FlooringMaterial[];
   selectedItems: PlacedEntity[];
   itemValidityMap: Map<string, boolean>;
   snapGuides: { x?: number; y?: number };
   wallStartPoint: { x: number; y: number } | null;
+  wallChainStartPoint: { x: number; y: number } | null;
+  wallArcEnd?: { x: number; y: number } | null;
+  wallPreviewBulge?: number;
+  wallPreviewThickness: number;
+  wallSeparatorMode?: boolean;
+  wallOffsetPreview?: WallItem[] | null;
   snappedPosition: { x: number; y: number } | null;
   currentItem: Item | null;
   isRoomToolActive: boolean;
@@ -56,12 +82,22 @@ interface KonvaCanvasProps {
   activeRoomId: string | null;
   roomBuilderState: RoomBuilderState;
   roomColorMap: Map<string, string | undefined>;
+  roomProposals: RoomProposal[];
+  units: PlanUnits;
+  dimensionDraftPoints: Point[];
+  roomCutLine?: Point[] | null;
+  roomLabelsInteractive?: boolean;
+  onRoomLabelMove?: (roomId: string, point: Point) => void;
+  onRoomLabelEdit?: (roomId: string) => void;
   onWheel: (e: any) => void;
   onMouseMove: (e: any) => void;
   onMouseDown: (e: any) => void;
   onMouseUp: (e: any) => void;
   onClick: (e: any) => void;
+  onDoubleClick: (e: KonvaEventObject<MouseEvent>) => void;
   onContextMenu: (e: any) => void;
+  onDragOver?: (e: React.DragEvent<HTMLDivElement>) => void; // items dragged in from the furniture palette
+  onDrop?: (e: React.DragEvent<HTMLDivElement>) => void;
 }
 
 const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function KonvaCanvas(
@@ -71,11 +107,19 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
     scale,
     position,
     placedEntities,
+    ghostEntities = [],
     rooms,
+    flooringMaterials = [],
     selectedItems,
     itemValidityMap,
     snapGuides,
     wallStartPoint,
+    wallChainStartPoint,
+    wallArcEnd = null,
+    wallPreviewBulge = 0,
+    wallPreviewThickness,
+    wallSeparatorMode = false,
+    wallOffsetPreview = null,
     snappedPosition,
     currentItem,
     isRoomToolActive,
@@ -83,22 +127,32 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
     activeRoomId,
     roomBuilderState,
     roomColorMap,
+    roomProposals,
+    units,
+    dimensionDraftPoints,
+    roomCutLine = null,
+    roomLabelsInteractive = false,
+    onRoomLabelMove,
+    onRoomLabelEdit,
     onWheel,
     onMouseMove,
     onMouseDown,
     onMouseUp,
     onClick,
+    onDoubleClick,
     onContextMenu,
+    onDragOver,
+    onDrop,
   }: KonvaCanvasProps,
   stageRef,
 ) {
 
-  const [floorPatternImages, setFloorPatternImages] = React.useState<Record<FlooringType, HTMLImageElement | null>>({
-    floor_tile: null,
-    floor_wood: null,
-    floor_stone: null,
-    floor_carpet: null
-  });
+  const [floorPatternImages, setFloorPatternImages] = React.useState<Partial<Record<FlooringType, HTMLImageElement | null>>>({});
+
+  const flooringSources = React.useMemo(() => [
+    ...(Object.entries(FLOORING_PATTERN_SOURCES) as [FlooringType, string][]),
+    ...flooringMaterials.map((material): [FlooringType, string] => [material.id, material.url])
+  ], [flooringMaterials]);
 
   React.useEffect(() => {
     if (typeof window === 'undefined') {
@@ -107,7 +161,7 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
 
     let isCancelled = false;
 
-    (Object.entries(FLOORING_PATTERN_SOURCES) as [FlooringType, string][]).forEach(([flooringType, src]) => {
+    flooringSources.forEach(([flooringType, src]) => {
       const image = new window.Image();
       image.crossOrigin = 'anonymous';
       image.src = src;
@@ -135,7 +189,7 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
     return () => {
       isCancelled = true;
     };
-  }, []);
+  }, [flooringSources]);
 
   // Group items by layer
   const itemsByLayer = React.useMemo(() => {
@@ -148,10 +202,9 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
     };
 
     placedEntities
-      .filter(entity => entity.type !== 'wall')
+      .filter(isPlacedItem)
       .filter(entity => !selectedItems.some(selected => selected.id === entity.id))
-      .forEach(entity => {
-        const item = entity as PlacedItem;
+      .forEach(item => {
         const layer = getItemLayer(item);
         layers[layer].push(item);
       });
@@ -164,6 +217,51 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
     [placedEntities]
   );
 
+  // Mitred outlines shared by all walls meeting at a junction
+  const wallOutlines = React.useMemo(() => buildWallOutlines(walls), [walls]);
+
+  const pinnedDimensions = React.useMemo(() =>
+    (placedEntities.filter(entity => entity.type === 'dimension') as DimensionItem[])
+      .map((dimension) => ({ dimension, points: resolveDimensionPoints(dimension, walls) }))
+      .filter((entry): entry is { dimension: DimensionItem; points: Point[] } => entry.points !== null),
+    [placedEntities, walls]
+  );
+
+  // Centreline of the wall being drawn; arcs bend through the cursor once their end is picked
+  const wallPreviewPoints = React.useMemo(() => {
+    if (!wallStartPoint || !snappedPosition) return null;
+    const end = wallArcEnd ?? snappedPosition;
+    const previewWall: WallItem = {
+      id: 'wall-preview',
+      type: 'wall',
+      startX: wallStartPoint.x,
+      startY: wallStartPoint.y,
+      endX: end.x,
+      endY: end.y,
+      thickness: 0,
+      bulge: wallArcEnd ? wallPreviewBulge : 0
+    };
+    return tessellateWall(previewWall).flatMap((point) => [point.x, point.y]);
+  }, [wallStartPoint, wallArcEnd, wallPreviewBulge, snappedPosition]);
+
+  const selectedWalls = React.useMemo(() =>
+    selectedItems.filter(entity => entity.type === 'wall') as WallItem[],
+    [selectedItems]
+  );
+
+  // Rooms whose area and perimeter are shown live: the active room plus rooms touched by selected walls
+  const measuredRooms = React.useMemo(() => {
+    const roomIds = new Set<string>();
+    if (activeRoomId) {
+      roomIds.add(activeRoomId);
+    }
+    selectedWalls.forEach((wall) => (wall.roomIds ?? []).forEach((roomId) => roomIds.add(roomId)));
+
+    return rooms.filter((room) =>
+      room.id !== NOT_IN_ROOM_ID && roomIds.has(room.id) && room.polygonPoints.length >= 6
+    );
+  }, [rooms, activeRoomId, selectedWalls]);
+
   const isRoomWorkflowActive = roomToolMode !== 'view';
   const builderBaseColor = roomToolMode === 'editing' && activeRoomId
     ? roomColorMap.get(activeRoomId) ?? '#f97316'
@@ -215,6 +313,7 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
           <PlacedIcon
             type={item.type}
             file={item.file}
+            src={item.src}
             width={item.width}
             height={item.height}
             x={0}
@@ -230,7 +329,7 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
   };
 
   return (
-    <div className="grid-background">
+    <div className="grid-background" onDragOver={onDragOver} onDrop={onDrop}>
       <Stage
         ref={stageRef}
         width={width}
@@ -244,9 +343,15 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
         onMouseDown={onMouseDown}
         onMouseUp={onMouseUp}
         onClick={onClick}
+        onDblClick={onDoubleClick}
         onContextMenu={onContextMenu}
       >
-        {/* Layer 1: Room overlays (bottom) */}
+        {/* Layer 0: Level below (bottom) */}
+        <Layer listening={false}>
+          {ghostEntities.length > 0 && <LevelGhost entities={ghostEntities} scale={scale} />}
+        </Layer>
+
+        {/* Layer 1: Room overlays */}
         <Layer listening={false}>
           {rooms.map((room) => {
             if (room.polygonPoints.length < 6) {
@@ -260,6 +365,11 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
             let strokeColor: string | undefined = isActiveRoom ? (room.color ?? '#2563eb') : undefined;
             let strokeWidth = isActiveRoom ? 3 / scale : 0;
             const patternImage = floorPatternImages[room.flooring];
+            // Uploaded textures repeat every `tileSize` metres, built-in patterns at their drawn size
+            const material = findFlooringMaterial(room.flooring, flooringMaterials);
+            const patternScale = material && patternImage?.width
+              ? (material.tileSize * units.pixelsPerMeter / patternImage.width) * room.flooringScale
+              : room.flooringScale;
 
             if (isRoomWorkflowActive) {
               // When actively creating/editing rooms, use blue overlay styling
@@ -271,19 +381,21 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
             return (
               <React.Fragment key={`room-${room.id}`}>
                 {patternImage && (
-                  <Line
+                  <RoomArea
                     points={room.polygonPoints}
-                    closed
+                    holes={room.holes}
                     fillPatternImage={patternImage}
                     fillPatternRepeat="repeat"
+                    fillPatternScale={{ x: patternScale, y: patternScale }}
+                    fillPatternRotation={room.flooringRotation}
                     strokeEnabled={false}
                     listening={false}
                   />
                 )}
                 {roomFill && (
-                  <Line
+                  <RoomArea
                     points={room.polygonPoints}
-                    closed
+                    holes={room.holes}
                     fill={roomFill}
                     opacity={fillOpacity}
                     strokeEnabled={false}
@@ -291,9 +403,9 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
                   />
                 )}
                 {(strokeColor || strokeWidth > 0) && (
-                  <Line
+                  <RoomArea
                     points={room.polygonPoints}
-                    closed
+                    holes={room.holes}
                     fillEnabled={false}
                     stroke={strokeColor}
                     strokeWidth={strokeWidth}
@@ -308,6 +420,18 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
 
         {/* Layer 1b: Room builder aids */}
         <Layer listening={false}>
+          {roomProposals.map(({ definition, polygonPoints }) => (
+            <Line
+              key={`room-proposal-${definition.id}`}
+              points={polygonPoints}
+              closed
+              fill={hexToRgba(definition.color ?? '#2563eb', 0.25)}
+              stroke={definition.color ?? '#2563eb'}
+              strokeWidth={2 / scale}
+              dash={builderDashPattern}
+              listening={false}
+            />
+          ))}
           {isRoomWorkflowActive && builderHasPath && (
             <Line
               points={roomBuilderState.nodeOrder.flatMap((node) => [node.x, node.y])}
@@ -336,32 +460,68 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
               ? (wall.roomIds ?? []).includes(activeRoomId)
               : false;
             const activeColor = activeRoomId ? roomColorMap.get(activeRoomId) ?? '#2563eb' : '#2563eb';
-            const thickness = wall.thickness / scale;
+            const outline = wallOutlines.get(wall.id);
 
-            let strokeColor = '#374151';
-            let strokeWidth = thickness;
+            let fillColor = WALL_MATERIAL_STYLES[getWallProperties(wall).material].fill;
+            let edgeColor = WALL_EDGE_COLOR;
+            let edgeWidth = 1 / scale;
             let opacity = isRoomWorkflowActive ? dimmedWallOpacity : 1;
 
             if (isBuilderWall) {
-              strokeColor = builderStrokeColor;
-              strokeWidth = Math.max(thickness, 3 / scale);
+              fillColor = builderStrokeColor;
+              edgeColor = builderStrokeColor;
+              edgeWidth = 3 / scale;
               opacity = 0.92;
             } else if (isActiveRoomWall) {
-              strokeColor = isRoomWorkflowActive ? (roomColorMap.get(activeRoomId as string) ?? builderStrokeColor) : activeColor;
-              strokeWidth = Math.max(thickness, isRoomWorkflowActive ? 3 / scale : 2.5 / scale);
+              fillColor = isRoomWorkflowActive ? (roomColorMap.get(activeRoomId as string) ?? builderStrokeColor) : activeColor;
+              edgeColor = fillColor;
+              edgeWidth = isRoomWorkflowActive ? 3 / scale : 2.5 / scale;
               opacity = isRoomWorkflowActive ? 0.9 : 0.85;
             }
 
-            return (
-              <React.Fragment key={wall.id}>
+            if (wall.separator) {
+              const isHighlighted = isBuilderWall || isActiveRoomWall;
+              return (
                 <Line
-                  points={[wall.startX, wall.startY, wall.endX, wall.endY]}
-                  stroke={strokeColor}
-                  strokeWidth={strokeWidth}
+                  key={wall.id}
+                  points={tessellateWall(wall).flatMap((point) => [point.x, point.y])}
+                  stroke={isHighlighted ? edgeColor : SEPARATOR_COLOR}
+                  strokeWidth={isHighlighted ? edgeWidth : SEPARATOR_WIDTH / scale}
+                  dash={[SEPARATOR_DASH / scale, SEPARATOR_GAP / scale]}
                   opacity={opacity}
-                  listening={false}
                   lineCap="round"
+                  listening={false}
                 />
+              );
+            }
+
+            return (
+              <React.Fragment key={wall.id}>
+                {outline && (
+                  <>
+                    <Line
+                      points={outline.polygon.flatMap((point) => [point.x, point.y])}
+                      closed
+                      fill={fillColor}
+                      opacity={opacity}
+                      listening={false}
+                    />
+                    {outline.boundary.map((edge, index) => (
+                      <Line
+                        key={`${wall.id}-edge-${index}`}
+                        points={edge.flatMap((point) => [point.x, point.y])}
+                        stroke={edgeColor}
+                        strokeWidth={edgeWidth}
+                        opacity={opacity}
+                        lineJoin="round"
+                        listening={false}
+                      />
+                    ))}
+                    {!isBuilderWall && !isActiveRoomWall && (
+                      <WallHatch wall={wall} outline={outline} scale={scale} opacity={opacity} />
+                    )}
+                  </>
+                )}
                 {!isRoomWorkflowActive && (
                   <>
                     <Circle
@@ -407,6 +567,40 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
           {renderItemsForLayer(itemsByLayer[ItemLayer.DOORS_WINDOWS], ItemLayer.DOORS_WINDOWS)}
         </Layer>
 
+        {/* Layer 7b: Pinned dimensions */}
+        <Layer listening={false}>
+          {pinnedDimensions.map(({ dimension, points }) => {
+            const isSelected = selectedItems.some((selected) => selected.id === dimension.id);
+            return (
+              <DimensionChainShape
+                key={dimension.id}
+                points={points}
+                offset={dimension.offset}
+                scale={scale}
+                units={units}
+                color={isSelected ? '#2563eb' : undefined}
+                opacity={isRoomWorkflowActive ? dimmedItemOpacity : 1}
+              />
+            );
+          })}
+        </Layer>
+
+        {/* Layer 7c: Room labels */}
+        <Layer listening={roomLabelsInteractive}>
+          {rooms.map((room) => room.id !== NOT_IN_ROOM_ID && room.polygonPoints.length >= 6 && (
+            <RoomLabel
+              key={`room-label-${room.id}`}
+              room={room}
+              scale={scale}
+              units={units}
+              interactive={roomLabelsInteractive}
+              opacity={isRoomWorkflowActive && room.id !== activeRoomId ? dimmedItemOpacity : 1}
+              onMove={onRoomLabelMove}
+              onEdit={onRoomLabelEdit}
+            />
+          ))}
+        </Layer>
+
         {/* Layer 8: Interface elements (top) */}
         <Layer listening={false}>
           {/* Snap guides */}
@@ -427,6 +621,20 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
             />
           )}
 
+          {/* Parallel copy preview for the wall offset tool */}
+          {wallOffsetPreview?.map((wall) => (
+            <Line
+              key={`wall-offset-preview-${wall.id}`}
+              points={tessellateWall(wall).flatMap((point) => [point.x, point.y])}
+              stroke="#2563eb"
+              strokeWidth={wall.thickness}
+              opacity={0.35}
+              dash={[8 / scale, 6 / scale]}
+              lineJoin="round"
+              listening={false}
+            />
+          ))}
+
           {/* Wall placement indicators */}
           {currentItem?.file === 'wall' && (
             <>
@@ -442,6 +650,18 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
                 />
               )}
               
+              {wallChainStartPoint && (
+                <Circle
+                  x={wallChainStartPoint.x}
+                  y={wallChainStartPoint.y}
+                  radius={12 / scale}
+                  stroke="#10b981"
+                  strokeWidth={2 / scale}
+                  dash={[4 / scale, 3 / scale]}
+                  listening={false}
+                />
+              )}
+
               {wallStartPoint && (
                 <Circle
                   x={wallStartPoint.x}
@@ -452,7 +672,17 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
                 />
               )}
               
-              {wallStartPoint && snappedPosition && (
+              {wallArcEnd && (
+                <Circle
+                  x={wallArcEnd.x}
+                  y={wallArcEnd.y}
+                  radius={8 / scale}
+                  fill="#3b82f6"
+                  listening={false}
+                />
+              )}
+
+              {wallStartPoint && snappedPosition && wallPreviewPoints && (
                 <>
                   <Circle
                     x={snappedPosition.x}
@@ -464,16 +694,84 @@ const KonvaCanvas = React.forwardRef<KonvaStage, KonvaCanvasProps>(function Konv
                     listening={false}
                   />
                   <Line
-                    points={[wallStartPoint.x, wallStartPoint.y, snappedPosition.x, snappedPosition.y]}
+                    points={wallPreviewPoints}
                     stroke="#64748b"
-                    strokeWidth={16 / scale}
+                    strokeWidth={wallSeparatorMode ? SEPARATOR_WIDTH / scale : wallPreviewThickness}
+                    dash={wallSeparatorMode ? [SEPARATOR_DASH / scale, SEPARATOR_GAP / scale] : undefined}
                     opacity={0.5}
                     listening={false}
+                    lineJoin="round"
+                  />
+                  <DimensionChainShape
+                    points={[wallStartPoint, wallArcEnd ?? snappedPosition]}
+                    offset={DEFAULT_DIMENSION_OFFSET}
+                    scale={scale}
+                    units={units}
+                    showAngle
                   />
                 </>
               )}
             </>
           )}
+
+          {/* Live measurements for selected walls */}
+          {selectedWalls.map((wall) => (
+            <DimensionChainShape
+              key={`selected-wall-dimension-${wall.id}`}
+              points={[{ x: wall.startX, y: wall.startY }, { x: wall.endX, y: wall.endY }]}
+              offset={DEFAULT_DIMENSION_OFFSET}
+              scale={scale}
+              units={units}
+              color="#2563eb"
+              showAngle
+            />
+          ))}
+
+          {/* Live room area and perimeter */}
+          {measuredRooms.map((room) => room.labelPoint && (
+            <MeasurementLabel
+              key={`room-measurement-${room.id}`}
+              x={room.labelPoint.x}
+              y={room.labelPoint.y + 30 / scale}
+              text={`${formatArea(room.area, units)} · P ${formatLength(room.perimeter, units)}`}
+              scale={scale}
+              color={room.color ?? '#2563eb'}
+            />
+          ))}
+
+          {/* Cut line splitting the active room */}
+          {roomCutLine && (
+            <Line
+              points={roomCutLine.flatMap((point) => [point.x, point.y])}
+              stroke={builderStrokeColor}
+              strokeWidth={2 / scale}
+              dash={builderDashPattern}
+              listening={false}
+            />
+          )}
+
+          {/* Dimension chain being drawn */}
+          {dimensionDraftPoints.length > 0 && (
+            <>
+              {dimensionDraftPoints.map((point, index) => (
+                <Circle
+                  key={`dimension-draft-point-${index}`}
+                  x={point.x}
+                  y={point.y}
+                  radius={4 / scale}
+                  fill="#0f766e"
+                  listening={false}
+                />
+              ))}
+              <DimensionChainShape
+                points={dimensionDraftPoints}
+                offset={DEFAULT_DIMENSION_OFFSET}
+                scale={scale}
+                units={units}
+                opacity={0.7}
+              />
+            </>
+          )}
         </Layer>
       </Stage>
     </div>
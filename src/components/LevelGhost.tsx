@@ -0,0 +1,81 @@
+import React from 'react';
+import { Group, Line } from 'react-konva';
+import { PlacedIcon } from '@/app/plans/[planId]/IconComponents';
+import { PlacedEntity, WallItem, isPlacedItem } from '@/app/plans/[planId]/types';
+import { tessellateWall } from '@/utils/wallArcs';
+import { buildWallOutlines } from '@/utils/wallOutline';
+
+const GHOST_COLOR = '#94a3b8';
+const GHOST_OPACITY = 0.3;
+
+interface LevelGhostProps {
+  entities: PlacedEntity[];
+  scale: number;
+}
+
+/**
+ * Walls and items of another level drawn faintly underneath the active one, to line up walls and
+ * stairs between floors. Nothing in it can be selected.
+ */
+export function LevelGhost({ entities, scale }: LevelGhostProps) {
+  const walls = React.useMemo(
+    () => entities.filter((entity): entity is WallItem => entity.type === 'wall'),
+    [entities]
+  );
+  const wallOutlines = React.useMemo(() => buildWallOutlines(walls), [walls]);
+  const items = entities.filter(isPlacedItem);
+
+  return (
+    <Group opacity={GHOST_OPACITY} listening={false}>
+      {walls.map((wall) => {
+        const outline = wallOutlines.get(wall.id);
+        if (wall.separator || !outline) {
+          return (
+            <Line
+              key={wall.id}
+              points={tessellateWall(wall).flatMap((point) => [point.x, point.y])}
+              stroke={GHOST_COLOR}
+              strokeWidth={1 / scale}
+            />
+          );
+        }
+
+        return (
+          <Line
+            key={wall.id}
+            points={outline.polygon.flatMap((point) => [point.x, point.y])}
+            closed
+            fill={GHOST_COLOR}
+          />
+        );
+      })}
+      {items.map((item) => {
+        const baseScale = item.scale ?? 1;
+        return (
+          <Group
+            key={item.id}
+            x={item.x}
+            y={item.y}
+            rotation={item.rotation}
+            scaleX={item.inverted ? -baseScale : baseScale}
+            scaleY={baseScale}
+          >
+            <PlacedIcon
+              type={item.type}
+              file={item.file}
+              src={item.src}
+              width={item.width}
+              height={item.height}
+              x={0}
+              y={0}
+              inverted={false}
+              rotation={0}
+              scale={1}
+              itemScale={1}
+            />
+          </Group>
+        );
+      })}
+    </Group>
+  );
+}
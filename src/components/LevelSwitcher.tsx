@@ -0,0 +1,92 @@
+"use client";
+
+import React from 'react';
+import { FiArrowDown, FiArrowUp, FiLayers, FiTrash2 } from 'react-icons/fi';
+import { PlanLevel } from '@/app/plans/[planId]/types';
+
+interface LevelSwitcherProps {
+  levels: PlanLevel[];
+  activeLevelId: string;
+  showLevelBelow: boolean;
+  onSelectLevel: (levelId: string) => void;
+  onAddLevel: (direction: 'above' | 'below') => void;
+  onRemoveLevel: (levelId: string) => void;
+  onShowLevelBelowChange: (show: boolean) => void;
+}
+
+export default function LevelSwitcher({
+  levels,
+  activeLevelId,
+  showLevelBelow,
+  onSelectLevel,
+  onAddLevel,
+  onRemoveLevel,
+  onShowLevelBelowChange
+}: LevelSwitcherProps) {
+  const ordered = [...levels].sort((a, b) => b.elevation - a.elevation);
+  const activeLevel = levels.find((level) => level.id === activeLevelId);
+  const canRemove = levels.length > 1 && activeLevel?.placedEntities.length === 0;
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-10">
+      <div className="bg-white rounded-2xl shadow-lg p-2 flex items-center gap-2 text-xs text-slate-600">
+        <FiLayers className="h-4 w-4 text-slate-400" />
+        <div className="flex rounded-xl border border-slate-200 p-0.5" role="radiogroup" aria-label="Level">
+          {ordered.map((level) => {
+            const isSelected = level.id === activeLevelId;
+            return (
+              <button
+                key={level.id}
+                type="button"
+                role="radio"
+                aria-checked={isSelected}
+                onClick={() => {
+                  if (isSelected) return;
+                  onSelectLevel(level.id);
+                }}
+                className={`rounded-lg px-2 py-1 font-medium transition ${
+                  isSelected ? 'bg-blue-500 text-white shadow-sm' : 'hover:bg-gray-100 cursor-pointer'
+                }`}
+              >
+                {level.name}
+              </button>
+            );
+          })}
+        </div>
+        <button
+          type="button"
+          onClick={() => onAddLevel('above')}
+          className="rounded-md p-1 text-slate-500 hover:bg-slate-100"
+          title="Add a level above"
+        >
+          <FiArrowUp className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => onAddLevel('below')}
+          className="rounded-md p-1 text-slate-500 hover:bg-slate-100"
+          title="Add a level below"
+        >
+          <FiArrowDown className="h-4 w-4" />
+        </button>
+        <button
+          type="button"
+          onClick={() => onRemoveLevel(activeLevelId)}
+          disabled={!canRemove}
+          className="rounded-md p-1 text-slate-500 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-40"
+          title={canRemove ? 'Remove this level' : 'Only an empty level can be removed'}
+        >
+          <FiTrash2 className="h-4 w-4" />
+        </button>
+        <label className="flex items-center gap-1 border-l border-slate-200 pl-2">
+          <input
+            type="checkbox"
+            checked={showLevelBelow}
+            onChange={(event) => onShowLevelBelowChange(event.target.checked)}
+          />
+          <span>Show level below</span>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { PlanUnits, UnitSystem } from '@/app/plans/[planId]/types';
+import {
+  METERS_PER_FOOT,
+  clampPixelsPerMeter,
+  displayUnitLabel,
+  pixelsPerDisplayUnit
+} from '@/utils/units';
+
+interface PlanUnitsControlProps {
+  units: PlanUnits;
+  onUnitsChange: (units: PlanUnits) => void;
+}
+
+const unitOptions: { value: UnitSystem; label: string }[] = [
+  { value: 'metric', label: 'Metric' },
+  { value: 'imperial', label: 'Imperial' }
+];
+
+export default function PlanUnitsControl({ units, onUnitsChange }: PlanUnitsControlProps) {
+  const [scaleDraft, setScaleDraft] = useState(() => pixelsPerDisplayUnit(units).toFixed(1));
+
+  useEffect(() => {
+    setScaleDraft(pixelsPerDisplayUnit(units).toFixed(1));
+  }, [units]);
+
+  const commitScale = () => {
+    const parsed = parseFloat(scaleDraft);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      setScaleDraft(pixelsPerDisplayUnit(units).toFixed(1));
+      return;
+    }
+
+    const pixelsPerMeter = clampPixelsPerMeter(
+      units.system === 'imperial' ? parsed / METERS_PER_FOOT : parsed
+    );
+
+    if (Math.abs(pixelsPerMeter - units.pixelsPerMeter) < 1e-6) {
+      return;
+    }
+
+    onUnitsChange({ ...units, pixelsPerMeter });
+  };
+
+  return (
+    <div className="fixed top-4 right-4 z-10">
+      <div className="bg-white rounded-2xl shadow-lg p-2 flex items-center gap-2 text-xs text-slate-600">
+        <div className="flex rounded-xl border border-slate-200 p-0.5" role="radiogroup" aria-label="Unit system">
+          {unitOptions.map((option) => {
+            const isSelected = units.system === option.value;
+            return (
+              <button
+                key={option.value}
+                type="button"
+                role="radio"
+                aria-checked={isSelected}
+                onClick={() => {
+                  if (isSelected) return;
+                  onUnitsChange({ ...units, system: option.value });
+                }}
+                className={`rounded-lg px-2 py-1 font-medium transition ${
+                  isSelected ? 'bg-blue-500 text-white shadow-sm' : 'hover:bg-gray-100 cursor-pointer'
+                }`}
+              >
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+        <label className="flex items-center gap-1" title="Canvas pixels per real-world unit">
+          <span>Scale</span>
+          <input
+            value={scaleDraft}
+            inputMode="decimal"
+            onChange={(event) => setScaleDraft(event.target.value)}
+            onBlur={commitScale}
+            onKeyDown={(event) => {
+              event.stopPropagation();
+              if (event.key === 'Enter') {
+                commitScale();
+              }
+            }}
+            className="w-16 rounded-md border border-slate-200 px-2 py-1 text-right font-medium text-slate-700 outline-none focus:border-blue-400"
+          />
+          <span>px / {displayUnitLabel(units.system)}</span>
+        </label>
+      </div>
+    </div>
+  );
+}
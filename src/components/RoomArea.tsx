@@ -0,0 +1,35 @@
+import React from 'react';
+import { Shape } from 'react-konva';
+import type { ShapeConfig } from 'konva/lib/Shape';
+
+interface RoomAreaProps extends ShapeConfig {
+  points: number[];
+  holes: number[][];
+}
+
+/**
+ * Closed room outline with its holes traced as extra subpaths. The even-odd rule leaves the holes
+ * unfilled, which a closed Line cannot do.
+ */
+export function RoomArea({ points, holes, ...shapeProps }: RoomAreaProps) {
+  return (
+    <Shape
+      {...shapeProps}
+      fillRule="evenodd"
+      sceneFunc={(context, shape) => {
+        context.beginPath();
+        [points, ...holes].forEach((ring) => {
+          for (let i = 0; i < ring.length; i += 2) {
+            if (i === 0) {
+              context.moveTo(ring[i], ring[i + 1]);
+            } else {
+              context.lineTo(ring[i], ring[i + 1]);
+            }
+          }
+          context.closePath();
+        });
+        context.fillStrokeShape(shape);
+      }}
+    />
+  );
+}
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Group, Text } from 'react-konva';
+import { ComputedRoom, PlanUnits } from '@/app/plans/[planId]/types';
+import { Point } from '@/app/lib/types';
+import { formatArea } from '@/utils/units';
+
+interface RoomLabelProps {
+  room: ComputedRoom;
+  scale: number;
+  units: PlanUnits;
+  interactive: boolean;
+  opacity?: number;
+  onMove?: (roomId: string, point: Point) => void;
+  onEdit?: (roomId: string) => void;
+}
+
+/**
+ * Room name and area centred on the room's label point. Interactive labels can be dragged to a new
+ * spot inside the room and double-clicked to rename the room.
+ */
+export function RoomLabel({ room, scale, units, interactive, opacity = 1, onMove, onEdit }: RoomLabelProps) {
+  if (!room.labelPoint) return null;
+
+  const nameSize = 13 / scale;
+  const areaSize = 11 / scale;
+  const areaText = formatArea(room.area, units);
+  const name = room.name || 'Unnamed room';
+  // Approximate text box so the label can be centred on its point
+  const width = Math.max(name.length * nameSize, areaText.length * areaSize) * 0.6;
+  const height = nameSize + areaSize + 2 / scale;
+
+  return (
+    <Group
+      x={room.labelPoint.x}
+      y={room.labelPoint.y}
+      offsetX={width / 2}
+      offsetY={height / 2}
+      opacity={opacity}
+      listening={interactive}
+      draggable={interactive}
+      onMouseDown={(event) => {
+        event.cancelBubble = true;
+      }}
+      onClick={(event) => {
+        event.cancelBubble = true;
+      }}
+      onDblClick={(event) => {
+        event.cancelBubble = true;
+        onEdit?.(room.id);
+      }}
+      onDragEnd={(event) => {
+        event.cancelBubble = true;
+        const point = event.target.position();
+        // Snap back until the new position comes back through props, it may be rejected
+        event.target.position(room.labelPoint ?? point);
+        onMove?.(room.id, point);
+      }}
+    >
+      <Text
+        text={name}
+        width={width}
+        align="center"
+        fontSize={nameSize}
+        fontStyle="bold"
+        fill="#1f2937"
+      />
+      <Text
+        y={nameSize + 2 / scale}
+        text={areaText}
+        width={width}
+        align="center"
+        fontSize={areaSize}
+        fill="#475569"
+      />
+    </Group>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import React, { useState } from 'react';
+
+interface RoomNameEditorProps {
+  name: string;
+  x: number; // screen coordinates of the label centre
+  y: number;
+  onCommit: (name: string) => void;
+  onCancel: () => void;
+}
+
+export default function RoomNameEditor({ name, x, y, onCommit, onCancel }: RoomNameEditorProps) {
+  const [draft, setDraft] = useState(name);
+
+  const commit = () => {
+    const trimmed = draft.trim();
+    if (!trimmed || trimmed === name) {
+      onCancel();
+      return;
+    }
+    onCommit(trimmed);
+  };
+
+  return (
+    <input
+      autoFocus
+      value={draft}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onFocus={(event) => event.target.select()}
+      onKeyDown={(event) => {
+        event.stopPropagation();
+        if (event.key === 'Enter') {
+          commit();
+        } else if (event.key === 'Escape') {
+          onCancel();
+        }
+      }}
+      style={{ left: x, top: y }}
+      className="fixed z-20 w-40 -translate-x-1/2 -translate-y-1/2 rounded-md border border-blue-400 bg-white px-2 py-1 text-center text-sm font-semibold text-slate-800 shadow-lg outline-none"
+    />
+  );
+}
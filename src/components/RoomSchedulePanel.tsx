@@ -0,0 +1,105 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { FiDownload, FiX } from 'react-icons/fi';
+import { ComputedRoom, FlooringMaterial, PlanUnits } from '@/app/plans/[planId]/types';
+import { buildRoomSchedule, buildRoomScheduleCsv } from '@/utils/roomSchedule';
+import { formatMeters, formatSquareMeters } from '@/utils/units';
+
+interface RoomSchedulePanelProps {
+  rooms: ComputedRoom[];
+  units: PlanUnits;
+  materials?: FlooringMaterial[];
+  onClose: () => void;
+}
+
+export default function RoomSchedulePanel({ rooms, units, materials = [], onClose }: RoomSchedulePanelProps) {
+  const schedule = useMemo(() => buildRoomSchedule(rooms, units, materials), [rooms, units, materials]);
+
+  const handleExport = () => {
+    const csv = buildRoomScheduleCsv(schedule, units);
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'room-schedule.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-20">
+      <div className="bg-white rounded-2xl shadow-lg p-3 w-[520px] space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-semibold text-slate-900">Room schedule</span>
+          <div className="flex items-center gap-1">
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={schedule.rows.length === 0}
+              className="flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <FiDownload className="h-3.5 w-3.5" />
+              <span>Export CSV</span>
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="rounded-md p-1 text-slate-500 hover:bg-slate-100"
+              title="Close"
+            >
+              <FiX className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+
+        {schedule.rows.length === 0 ? (
+          <p className="text-xs text-slate-500">No rooms yet. Detect or outline rooms to build the schedule.</p>
+        ) : (
+          <div className="max-h-[320px] overflow-y-auto furniture-menu-scroll pr-1">
+            <table className="w-full text-xs text-slate-600">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="py-1 font-medium">Room</th>
+                  <th className="py-1 font-medium">Flooring</th>
+                  <th className="py-1 font-medium text-right">Area</th>
+                  <th className="py-1 font-medium text-right">Usable</th>
+                  <th className="py-1 font-medium text-right">Perimeter</th>
+                </tr>
+              </thead>
+              <tbody>
+                {schedule.rows.map((row) => (
+                  <tr key={row.roomId} className="border-t border-slate-100">
+                    <td className="py-1 font-medium text-slate-700">{row.name}</td>
+                    <td className="py-1">{row.flooringLabel}</td>
+                    <td className="py-1 text-right">{formatSquareMeters(row.area, units.system)}</td>
+                    <td className="py-1 text-right">{formatSquareMeters(row.usableArea, units.system)}</td>
+                    <td className="py-1 text-right">{formatMeters(row.perimeter, units.system)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                {schedule.totals.map((total) => (
+                  <tr key={total.flooring} className="border-t border-slate-200 text-slate-500">
+                    <td className="py-1">{total.flooringLabel}</td>
+                    <td className="py-1">{total.roomCount === 1 ? '1 room' : `${total.roomCount} rooms`}</td>
+                    <td className="py-1 text-right">{formatSquareMeters(total.area, units.system)}</td>
+                    <td className="py-1 text-right">{formatSquareMeters(total.usableArea, units.system)}</td>
+                    <td />
+                  </tr>
+                ))}
+                <tr className="border-t border-slate-300 font-semibold text-slate-800">
+                  <td className="py-1">Total</td>
+                  <td className="py-1">{schedule.rows.length === 1 ? '1 room' : `${schedule.rows.length} rooms`}</td>
+                  <td className="py-1 text-right">{formatSquareMeters(schedule.area, units.system)}</td>
+                  <td className="py-1 text-right">{formatSquareMeters(schedule.usableArea, units.system)}</td>
+                  <td />
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
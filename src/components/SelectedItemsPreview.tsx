@@ -1,18 +1,23 @@
 import React, { useEffect, useState } from 'react';
-import { PlacedEntity, PlacedItem, WallItem } from '@/app/plans/[planId]/types';
+import { PlacedEntity, PlacedItem, PlanUnits, WallItem } from '@/app/plans/[planId]/types';
+import { getIconSource } from '@/utils/catalog';
+import { getResizeHandles, isParametricItem } from '@/utils/parametric';
+import { formatLength } from '@/utils/units';
 
 interface SelectedItemsPreviewProps {
   selectedItems: PlacedEntity[];
   itemValidityMap: Map<string, boolean>;
   stageScale: number;
   stagePosition: { x: number; y: number };
+  units?: PlanUnits;
 }
 
 export default function SelectedItemsPreview({
   selectedItems,
   itemValidityMap,
   stageScale,
-  stagePosition
+  stagePosition,
+  units
 }: SelectedItemsPreviewProps) {
   const [isClient, setIsClient] = useState(false);
 
@@ -29,6 +34,11 @@ export default function SelectedItemsPreview({
     <div className="fixed inset-0 pointer-events-none z-10">
       {selectedItems.map((entity) => {
         const isValid = itemValidityMap.get(entity.id) ?? true;
+
+        // Selected dimensions are highlighted on the canvas itself
+        if (entity.type === 'dimension') {
+          return null;
+        }
         
         if (entity.type === 'wall') {
           const wall = entity as WallItem;
@@ -103,7 +113,10 @@ export default function SelectedItemsPreview({
         const borderWidth = itemWidth + borderPadding * 2;
         const borderHeight = itemHeight + borderPadding * 2;
         
-        const iconPath = `/icons/${item.type}/${item.file}.svg`;
+        const iconPath = getIconSource(item);
+        const isParametric = isParametricItem(item);
+        // Resize handles are offered when a single parametric item is selected
+        const resizeHandles = selectedItems.length === 1 ? getResizeHandles(item) : [];
         
         return (
           <div key={item.id} className="absolute">
@@ -137,7 +150,7 @@ export default function SelectedItemsPreview({
                 top: screenY - itemHeight / 2,
                 width: itemWidth,
                 height: itemHeight,
-                objectFit: 'contain',
+                objectFit: isParametric ? 'fill' : 'contain',
                 transform: `rotate(${item.rotation}deg) ${item.inverted ? 'scaleX(-1)' : ''}`,
                 transformOrigin: 'center center',
                 filter: isItemValid ? 'none' : 'sepia(1) hue-rotate(320deg) saturate(3) brightness(0.8)',
@@ -145,6 +158,36 @@ export default function SelectedItemsPreview({
                 opacity: 0.9
               }}
             />
+
+            {resizeHandles.map((handle) => (
+              <div
+                key={handle.handle}
+                className="bg-white border-2 border-blue-500 rounded-sm"
+                style={{
+                  position: 'fixed',
+                  left: handle.x * stageScale + stagePosition.x - 5,
+                  top: handle.y * stageScale + stagePosition.y - 5,
+                  width: 10,
+                  height: 10,
+                  zIndex: 16
+                }}
+              />
+            ))}
+
+            {resizeHandles.length > 0 && units && (
+              <div
+                className="rounded bg-slate-900/80 px-1.5 py-0.5 text-[11px] font-medium text-white whitespace-nowrap"
+                style={{
+                  position: 'fixed',
+                  left: screenX,
+                  top: screenY + Math.max(itemWidth, itemHeight) / 2 + 12,
+                  transform: 'translateX(-50%)',
+                  zIndex: 16
+                }}
+              >
+                {formatLength(item.width * item.scale, units)} × {formatLength(item.height * item.scale, units)}
+              </div>
+            )}
           </div>
         );
       })}
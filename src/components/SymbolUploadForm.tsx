@@ -0,0 +1,114 @@
+"use client";
+
+import React, { useRef, useState } from 'react';
+import { FiUpload } from 'react-icons/fi';
+import { PlanUnits, RealDimensions } from '@/app/plans/[planId]/types';
+import { displayUnitLabel, displayUnitsToMeters } from '@/utils/units';
+
+interface SymbolUploadFormProps {
+  units: PlanUnits;
+  isUploading?: boolean;
+  onUpload: (file: File, options: { name: string; dimensions?: RealDimensions }) => void;
+}
+
+export default function SymbolUploadForm({ units, isUploading = false, onUpload }: SymbolUploadFormProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState('');
+  const [width, setWidth] = useState('');
+  const [depth, setDepth] = useState('');
+
+  const parsedWidth = parseFloat(width);
+  const parsedDepth = parseFloat(depth);
+  const hasDimensions = parsedWidth > 0 && parsedDepth > 0;
+  const dimensionsAreValid = hasDimensions || (width.trim() === '' && depth.trim() === '');
+
+  const reset = () => {
+    setFile(null);
+    setName('');
+    setWidth('');
+    setDepth('');
+    if (inputRef.current) {
+      inputRef.current.value = '';
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!file || !dimensionsAreValid) return;
+
+    onUpload(file, {
+      name: name.trim() || file.name,
+      dimensions: hasDimensions
+        ? {
+          width: displayUnitsToMeters(parsedWidth, units.system),
+          depth: displayUnitsToMeters(parsedDepth, units.system)
+        }
+        : undefined
+    });
+    reset();
+  };
+
+  const stopShortcuts = (event: React.KeyboardEvent<HTMLInputElement>) => event.stopPropagation();
+  const unitLabel = displayUnitLabel(units.system);
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-lg p-3 w-56 space-y-2 text-xs text-slate-600">
+      <div className="text-xs font-semibold text-slate-700">Upload a symbol</div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".svg,image/svg+xml"
+        onChange={(event) => {
+          const nextFile = event.target.files?.[0] ?? null;
+          setFile(nextFile);
+          if (nextFile && !name) {
+            setName(nextFile.name.replace(/\.svg$/i, '').replace(/[_-]+/g, ' '));
+          }
+        }}
+        className="w-full text-[11px] file:mr-2 file:rounded-md file:border file:border-slate-200 file:bg-white file:px-2 file:py-1 file:text-xs file:text-slate-600"
+      />
+      <input
+        value={name}
+        placeholder="Name"
+        onChange={(event) => setName(event.target.value)}
+        onKeyDown={stopShortcuts}
+        className="w-full rounded-md border border-slate-200 px-2 py-1 font-medium text-slate-700 outline-none focus:border-blue-400"
+      />
+      <div className="grid grid-cols-2 gap-2" title="Real size of the symbol. Leave empty to use the SVG's own size.">
+        <label className="flex items-center gap-1">
+          <span>W</span>
+          <input
+            value={width}
+            inputMode="decimal"
+            placeholder="auto"
+            onChange={(event) => setWidth(event.target.value)}
+            onKeyDown={stopShortcuts}
+            className="w-full rounded-md border border-slate-200 px-2 py-1 text-right font-medium text-slate-700 outline-none focus:border-blue-400"
+          />
+          <span>{unitLabel}</span>
+        </label>
+        <label className="flex items-center gap-1">
+          <span>D</span>
+          <input
+            value={depth}
+            inputMode="decimal"
+            placeholder="auto"
+            onChange={(event) => setDepth(event.target.value)}
+            onKeyDown={stopShortcuts}
+            className="w-full rounded-md border border-slate-200 px-2 py-1 text-right font-medium text-slate-700 outline-none focus:border-blue-400"
+          />
+          <span>{unitLabel}</span>
+        </label>
+      </div>
+      <button
+        type="submit"
+        disabled={!file || !dimensionsAreValid || isUploading}
+        className="flex w-full items-center justify-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs font-medium text-slate-600 hover:border-blue-300 hover:text-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        <FiUpload className="h-3.5 w-3.5" />
+        <span>{isUploading ? 'Uploading…' : 'Add to library'}</span>
+      </button>
+    </form>
+  );
+}
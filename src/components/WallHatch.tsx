@@ -0,0 +1,118 @@
+import React from 'react';
+import { Shape } from 'react-konva';
+import type { Context } from 'konva/lib/Context';
+import { WallItem } from '@/app/plans/[planId]/types';
+import { Point } from '@/app/lib/types';
+import { offsetWallCenterline } from '@/utils/wallArcs';
+import { WallOutline } from '@/utils/wallOutline';
+import { WALL_MATERIAL_STYLES, getWallProperties } from '@/utils/wallProperties';
+
+const EXTERIOR_OUTLINE_COLOR = '#111827';
+const LOAD_BEARING_AXIS_COLOR = '#b91c1c';
+
+interface WallHatchProps {
+  wall: WallItem;
+  outline: WallOutline;
+  scale: number;
+  opacity?: number;
+}
+
+function tracePolyline(context: Context, points: Point[]) {
+  points.forEach((point, index) => {
+    if (index === 0) {
+      context.moveTo(point.x, point.y);
+    } else {
+      context.lineTo(point.x, point.y);
+    }
+  });
+}
+
+/**
+ * Parallel 45° lines covering the outline's bounding box; callers clip them to the outline.
+ */
+function traceHatchLines(context: Context, outline: Point[], spacing: number, direction: 1 | -1) {
+  const xs = outline.map((point) => point.x);
+  const ys = outline.map((point) => point.y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+
+  // Lines follow y = direction * x + c
+  const cValues = [minY - direction * minX, minY - direction * maxX, maxY - direction * minX, maxY - direction * maxX];
+  const start = Math.floor(Math.min(...cValues) / spacing) * spacing;
+  const end = Math.max(...cValues);
+
+  for (let c = start; c <= end; c += spacing) {
+    context.moveTo(minX, direction * minX + c);
+    context.lineTo(maxX, direction * maxX + c);
+  }
+}
+
+/**
+ * Material hatch, exterior outline and load-bearing axis drawn over a wall's mitred outline.
+ */
+export function WallHatch({ wall, outline, scale, opacity = 1 }: WallHatchProps) {
+  const { material, layer, loadBearing } = getWallProperties(wall);
+  const style = WALL_MATERIAL_STYLES[material];
+
+  if (style.hatch === 'none' && layer === 'interior' && !loadBearing) {
+    return null;
+  }
+
+  return (
+    <Shape
+      opacity={opacity}
+      listening={false}
+      sceneFunc={(context) => {
+        const halfWidth = wall.thickness / 2;
+        const { polygon, boundary } = outline;
+
+        context.save();
+        context.setAttr('lineWidth', 1 / scale);
+        context.setAttr('strokeStyle', style.hatchColor);
+
+        if (style.hatch === 'diagonal' || style.hatch === 'cross') {
+          context.save();
+          context.beginPath();
+          tracePolyline(context, polygon);
+          context.closePath();
+          context.clip();
+
+          context.beginPath();
+          traceHatchLines(context, polygon, 6 / scale, 1);
+          if (style.hatch === 'cross') {
+            traceHatchLines(context, polygon, 6 / scale, -1);
+          }
+          context.stroke();
+          context.restore();
+        } else if (style.hatch === 'glazing') {
+          context.beginPath();
+          tracePolyline(context, offsetWallCenterline(wall, halfWidth / 3));
+          tracePolyline(context, offsetWallCenterline(wall, -halfWidth / 3));
+          context.stroke();
+        }
+
+        if (loadBearing) {
+          context.beginPath();
+          tracePolyline(context, offsetWallCenterline(wall, 0));
+          context.setAttr('strokeStyle', LOAD_BEARING_AXIS_COLOR);
+          context.setAttr('lineWidth', 1.5 / scale);
+          context.setLineDash([8 / scale, 3 / scale, 2 / scale, 3 / scale]);
+          context.stroke();
+          context.setLineDash([]);
+        }
+
+        if (layer === 'exterior') {
+          context.beginPath();
+          boundary.forEach((edge) => tracePolyline(context, edge));
+          context.setAttr('strokeStyle', EXTERIOR_OUTLINE_COLOR);
+          context.setAttr('lineWidth', 1.5 / scale);
+          context.stroke();
+        }
+
+        context.restore();
+      }}
+    />
+  );
+}
@@ -0,0 +1,321 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import {
+  DEFAULT_WALL_THICKNESS_METERS,
+  PlanUnits,
+  WallItem,
+  WallLayer,
+  WallMaterial
+} from '@/app/plans/[planId]/types';
+import {
+  WALL_LAYERS,
+  WALL_MATERIALS,
+  WALL_MATERIAL_STYLES,
+  WallProperties,
+  sharedWallProperty
+} from '@/utils/wallProperties';
+import { WallOperation } from '@/utils/wallOperations';
+import {
+  displayUnitLabel,
+  displayUnitsToMeters,
+  metersToDisplayUnits,
+  metersToPixels,
+  pixelsToMeters
+} from '@/utils/units';
+
+export interface WallOffsetDraft {
+  distance: number; // metres
+  flipped: boolean;
+}
+
+export const DEFAULT_WALL_OFFSET_DRAFT: WallOffsetDraft = { distance: 1, flipped: false };
+
+interface WallInspectorProps {
+  walls: WallItem[];
+  units: PlanUnits;
+  onWallsChange: (walls: WallItem[]) => void;
+  activeOperation?: WallOperation | null;
+  onStartOperation?: (operation: WallOperation) => void;
+  onCancelOperation?: () => void;
+  onMergeWalls?: () => void;
+  offsetDraft?: WallOffsetDraft | null;
+  offsetError?: string | null;
+  onOffsetDraftChange?: (draft: WallOffsetDraft | null) => void;
+  onConfirmOffset?: () => void;
+}
+
+const operationHints: Record<WallOperation, string> = {
+  split: 'Click on the wall where it should be split.',
+  extend: 'Click the wall to extend or trim up to.'
+};
+
+interface LengthFieldProps {
+  label: string;
+  meters: number | null;
+  units: PlanUnits;
+  onCommit: (meters: number) => void;
+}
+
+function LengthField({ label, meters, units, onCommit }: LengthFieldProps) {
+  const formatted = meters === null ? '' : metersToDisplayUnits(meters, units.system).toFixed(2);
+  const [draft, setDraft] = useState(formatted);
+
+  useEffect(() => {
+    setDraft(formatted);
+  }, [formatted]);
+
+  const commit = () => {
+    const parsed = parseFloat(draft);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      setDraft(formatted);
+      return;
+    }
+
+    const nextMeters = displayUnitsToMeters(parsed, units.system);
+    if (meters !== null && Math.abs(nextMeters - meters) < 1e-6) {
+      return;
+    }
+    onCommit(nextMeters);
+  };
+
+  return (
+    <label className="flex items-center justify-between gap-2 text-xs text-slate-600">
+      <span>{label}</span>
+      <span className="flex items-center gap-1">
+        <input
+          value={draft}
+          placeholder="Mixed"
+          inputMode="decimal"
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={commit}
+          onKeyDown={(event) => {
+            event.stopPropagation();
+            if (event.key === 'Enter') {
+              commit();
+            }
+          }}
+          className="w-16 rounded-md border border-slate-200 px-2 py-1 text-right font-medium text-slate-700 outline-none focus:border-blue-400"
+        />
+        <span className="w-4">{displayUnitLabel(units.system)}</span>
+      </span>
+    </label>
+  );
+}
+
+export default function WallInspector({
+  walls,
+  units,
+  onWallsChange,
+  activeOperation = null,
+  onStartOperation,
+  onCancelOperation,
+  onMergeWalls,
+  offsetDraft = null,
+  offsetError = null,
+  onOffsetDraftChange,
+  onConfirmOffset
+}: WallInspectorProps) {
+  if (walls.length === 0) {
+    return null;
+  }
+
+  const update = (changes: Partial<WallProperties>) => {
+    onWallsChange(walls.map((wall) => ({ ...wall, ...changes })));
+  };
+
+  const thickness = sharedWallProperty(walls, 'thickness');
+  const height = sharedWallProperty(walls, 'height');
+  const material = sharedWallProperty(walls, 'material');
+  const layer = sharedWallProperty(walls, 'layer');
+  const loadBearing = sharedWallProperty(walls, 'loadBearing');
+  const separator = sharedWallProperty(walls, 'separator');
+  const noun = separator ? 'separator' : 'wall';
+
+  const optionClass = (isSelected: boolean) => `rounded-lg px-2 py-1 text-xs font-medium transition ${
+    isSelected ? 'bg-blue-500 text-white shadow-sm' : 'text-slate-600 hover:bg-gray-100 cursor-pointer'
+  }`;
+
+  return (
+    <div className="fixed top-20 right-4 z-10">
+      <div className="bg-white rounded-2xl shadow-lg p-3 w-56 space-y-3">
+        <span className="text-sm font-semibold text-slate-900 capitalize">
+          {walls.length === 1 ? noun : `${walls.length} ${noun}s`}
+        </span>
+
+        <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={separator === true}
+            ref={(input) => {
+              if (input) input.indeterminate = separator === null;
+            }}
+            onChange={(event) => update({
+              separator: event.target.checked,
+              thickness: event.target.checked ? 0 : metersToPixels(DEFAULT_WALL_THICKNESS_METERS, units)
+            })}
+          />
+          Separator without a wall
+        </label>
+
+        {!separator && (
+          <>
+            <div className="space-y-1.5">
+              <LengthField
+                label="Thickness"
+                meters={thickness === null ? null : pixelsToMeters(thickness, units)}
+                units={units}
+                onCommit={(meters) => update({ thickness: metersToPixels(meters, units) })}
+              />
+              <LengthField
+                label="Height"
+                meters={height}
+                units={units}
+                onCommit={(meters) => update({ height: meters })}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <span className="text-xs font-medium text-slate-500">Material</span>
+              <div className="grid grid-cols-2 gap-1" role="radiogroup" aria-label="Wall material">
+                {WALL_MATERIALS.map((option: WallMaterial) => (
+                  <button
+                    key={option}
+                    type="button"
+                    role="radio"
+                    aria-checked={material === option}
+                    onClick={() => update({ material: option })}
+                    className={`${optionClass(material === option)} flex items-center gap-1.5`}
+                  >
+                    <span
+                      className="h-2.5 w-2.5 rounded-sm border border-slate-300"
+                      style={{ backgroundColor: WALL_MATERIAL_STYLES[option].fill }}
+                    />
+                    {WALL_MATERIAL_STYLES[option].label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <span className="text-xs font-medium text-slate-500">Layer</span>
+              <div className="grid grid-cols-2 gap-1" role="radiogroup" aria-label="Wall layer">
+                {WALL_LAYERS.map((option: WallLayer) => (
+                  <button
+                    key={option}
+                    type="button"
+                    role="radio"
+                    aria-checked={layer === option}
+                    onClick={() => update({ layer: option })}
+                    className={`${optionClass(layer === option)} capitalize`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={loadBearing === true}
+                ref={(input) => {
+                  if (input) input.indeterminate = loadBearing === null;
+                }}
+                onChange={(event) => update({ loadBearing: event.target.checked })}
+              />
+              Load-bearing
+            </label>
+          </>
+        )}
+
+        <div className="space-y-1">
+          <span className="text-xs font-medium text-slate-500">Edit</span>
+          {offsetDraft ? (
+            <div className="space-y-1.5 rounded-lg bg-slate-50 p-2">
+              <LengthField
+                label="Offset"
+                meters={offsetDraft.distance}
+                units={units}
+                onCommit={(meters) => onOffsetDraftChange?.({ ...offsetDraft, distance: meters })}
+              />
+              <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={offsetDraft.flipped}
+                  onChange={(event) => onOffsetDraftChange?.({ ...offsetDraft, flipped: event.target.checked })}
+                />
+                Flip side
+              </label>
+              {offsetError && <p className="text-xs text-red-600">{offsetError}</p>}
+              <div className="grid grid-cols-2 gap-1">
+                <button
+                  type="button"
+                  onClick={() => onOffsetDraftChange?.(null)}
+                  className={optionClass(false)}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  disabled={offsetError !== null}
+                  onClick={onConfirmOffset}
+                  className={`${optionClass(true)} disabled:opacity-40 disabled:cursor-not-allowed`}
+                >
+                  Create
+                </button>
+              </div>
+            </div>
+          ) : activeOperation ? (
+            <div className="flex items-center justify-between gap-2 rounded-lg bg-blue-50 px-2 py-1.5 text-xs text-blue-700">
+              <span>{operationHints[activeOperation]}</span>
+              <button
+                type="button"
+                onClick={onCancelOperation}
+                className="rounded-md px-1.5 py-0.5 font-medium hover:bg-blue-100 cursor-pointer"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-1">
+              <button
+                type="button"
+                disabled={walls.length !== 1}
+                onClick={() => onStartOperation?.('split')}
+                className={`${optionClass(false)} disabled:opacity-40 disabled:cursor-not-allowed`}
+              >
+                Split
+              </button>
+              <button
+                type="button"
+                disabled={walls.length !== 2}
+                onClick={onMergeWalls}
+                className={`${optionClass(false)} disabled:opacity-40 disabled:cursor-not-allowed`}
+              >
+                Merge
+              </button>
+              <button
+                type="button"
+                disabled={walls.length !== 1}
+                onClick={() => onStartOperation?.('extend')}
+                className={`${optionClass(false)} disabled:opacity-40 disabled:cursor-not-allowed`}
+                title="Extend or trim to another wall"
+              >
+                Extend
+              </button>
+              <button
+                type="button"
+                onClick={() => onOffsetDraftChange?.(DEFAULT_WALL_OFFSET_DRAFT)}
+                className={optionClass(false)}
+                title="Create a parallel copy of the selected wall chain"
+              >
+                Offset
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
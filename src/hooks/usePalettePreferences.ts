@@ -0,0 +1,47 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  PalettePreferences,
+  createPalettePreferences,
+  normalizePalettePreferences,
+  pushRecentItem,
+  toggleFavoriteItem
+} from '@/utils/palette';
+
+const STORAGE_KEY = 'floorplanPalette';
+
+const readPreferences = (): PalettePreferences => {
+  if (typeof window === 'undefined') {
+    return createPalettePreferences();
+  }
+
+  try {
+    return normalizePalettePreferences(JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null'));
+  } catch {
+    return createPalettePreferences();
+  }
+};
+
+/**
+ * Recently used and favourite palette items, kept in this browser across plans.
+ */
+export function usePalettePreferences() {
+  const [preferences, setPreferences] = useState<PalettePreferences>(() => readPreferences());
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  }, [preferences]);
+
+  const markUsed = useCallback((file: string) => {
+    setPreferences((prev) => ({ ...prev, recent: pushRecentItem(prev.recent, file) }));
+  }, []);
+
+  const toggleFavorite = useCallback((file: string) => {
+    setPreferences((prev) => ({ ...prev, favorites: toggleFavoriteItem(prev.favorites, file) }));
+  }, []);
+
+  return { ...preferences, markUsed, toggleFavorite };
+}
+
+export default usePalettePreferences;
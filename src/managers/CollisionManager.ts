@@ -1,4 +1,4 @@
-import { PlacedItem, PlacedEntity, WallItem } from '@/app/plans/[planId]/types';
+import { PlacedItem, PlacedEntity, WallItem, isPlacedItem } from '@/app/plans/[planId]/types';
 
 export class CollisionManager {
   private static readonly COLLISION_TOLERANCE = 15;
@@ -16,8 +16,8 @@ export class CollisionManager {
       if (entity.type === 'wall') {
         const wall = entity as WallItem;
         if (this.shouldAllowWallInteraction(item, wall)) continue;
-      } else {
-        const otherItem = entity as PlacedItem;
+      } else if (isPlacedItem(entity)) {
+        const otherItem = entity;
         const otherBounds = this.getItemBounds(otherItem);
         
         if (this.boundsOverlap(itemBounds, otherBounds)) {
@@ -55,17 +55,44 @@ export class CollisionManager {
     return false;
   }
 
+  /**
+   * Corners of an item's footprint at its own width and depth, rotated with the item, so resized
+   * parametric items and long items turned on their side collide where they are drawn.
+   */
+  private static getItemCorners(item: PlacedItem): { x: number; y: number }[] {
+    const halfWidth = (item.width * item.scale) / 2;
+    const halfHeight = (item.height * item.scale) / 2;
+    const angle = ((item.rotation ?? 0) * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    return [
+      { x: -halfWidth, y: -halfHeight },
+      { x: halfWidth, y: -halfHeight },
+      { x: halfWidth, y: halfHeight },
+      { x: -halfWidth, y: halfHeight }
+    ].map((corner) => ({
+      x: item.x + corner.x * cos - corner.y * sin,
+      y: item.y + corner.x * sin + corner.y * cos
+    }));
+  }
+
   private static getItemBounds(item: PlacedItem) {
-    const width = item.width * item.scale;
-    const height = item.height * item.scale;
-    
-    const tolerance = this.COLLISION_TOLERANCE;
-    
+    const corners = this.getItemCorners(item);
+    const left = Math.min(...corners.map((corner) => corner.x));
+    const right = Math.max(...corners.map((corner) => corner.x));
+    const top = Math.min(...corners.map((corner) => corner.y));
+    const bottom = Math.max(...corners.map((corner) => corner.y));
+
+    // Narrow items such as wall cabinets keep some footprint once the tolerance is taken off
+    const toleranceX = Math.min(this.COLLISION_TOLERANCE, (right - left) / 4);
+    const toleranceY = Math.min(this.COLLISION_TOLERANCE, (bottom - top) / 4);
+
     return {
-      left: item.x - width / 2 + tolerance,
-      right: item.x + width / 2 - tolerance,
-      top: item.y - height / 2 + tolerance,
-      bottom: item.y + height / 2 - tolerance
+      left: left + toleranceX,
+      right: right - toleranceX,
+      top: top + toleranceY,
+      bottom: bottom - toleranceY
     };
   }
 
@@ -115,11 +142,12 @@ export class CollisionManager {
       if (entity.type === 'wall') {
         // Check wall-to-wall collision (line intersection)
         const otherWall = entity as WallItem;
+        if (wall.separator || otherWall.separator) continue;
         if (this.checkWallWallCollision(wall, otherWall)) {
           return true;
         }
-      } else {
-        const item = entity as PlacedItem;
+      } else if (isPlacedItem(entity)) {
+        const item = entity;
         // Check wall-to-item collision
         if (this.checkWallItemCollision(wall, item)) {
           return true;
@@ -144,25 +172,9 @@ export class CollisionManager {
   }
 
   private static checkWallItemCollision(wall: WallItem, item: PlacedItem): boolean {
-    // Check if item bounds intersect with wall line
+    // Check the item's corners against the wall line
     // Use original bounds without tolerance since we'll apply tolerance in distance calculation
-    const width = item.width * item.scale;
-    const height = item.height * item.scale;
-    
-    const itemBounds = {
-      left: item.x - width / 2,
-      right: item.x + width / 2,
-      top: item.y - height / 2,
-      bottom: item.y + height / 2
-    };
-    
-    // Check if any corner of the item bounds intersects with the wall line
-    const corners = [
-      { x: itemBounds.left, y: itemBounds.top },
-      { x: itemBounds.right, y: itemBounds.top },
-      { x: itemBounds.right, y: itemBounds.bottom },
-      { x: itemBounds.left, y: itemBounds.bottom }
-    ];
+    const corners = this.getItemCorners(item);
     
     for (const corner of corners) {
       const distance = this.distanceToLineSegment(
@@ -1,4 +1,4 @@
-import { PlacedItem, PlacedEntity, WallItem } from '@/app/plans/[planId]/types';
+import { PlacedItem, PlacedEntity, WallItem, isPlacedItem } from '@/app/plans/[planId]/types';
 import { CollisionManager } from './CollisionManager';
 import { canPlaceOnWall } from '@/utils/wallAttachment';
 
@@ -77,11 +77,14 @@ export class EditingManager {
       if (entity.type === 'wall') {
         // Walls are invalid when they overlap with regular objects (excluding doors/windows)
         const regularObjects = allOtherEntities.filter(other => 
-          other.type !== 'wall' && 
-          (other as PlacedItem).subtype !== 'door' && 
-          (other as PlacedItem).subtype !== 'window'
+          isPlacedItem(other) && 
+          other.subtype !== 'door' && 
+          other.subtype !== 'window'
         );
         isValid = !CollisionManager.checkWallCollisions(entity as WallItem, regularObjects);
+      } else if (entity.type === 'dimension') {
+        // Dimension annotations never block placement
+        isValid = true;
       } else {
         const item = entity as PlacedItem;
         if (item.subtype === 'door' || item.subtype === 'window') {
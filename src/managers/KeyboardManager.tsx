@@ -26,6 +26,12 @@ interface KeyboardManagerProps {
   onRoomConfirm?: () => void;
   onRoomCancel?: () => void;
   roomBuilderIsValid?: boolean;
+  dimensionShortcutsEnabled?: boolean;
+  onDimensionConfirm?: () => void;
+  onDimensionCancel?: () => void;
+  dimensionDraftIsValid?: boolean;
+  wallShortcutsEnabled?: boolean;
+  onWallChainFinish?: () => void;
 }
 
 const transformKeyHints: KeyHint[] = [
@@ -48,6 +54,16 @@ const roomKeyHints: KeyHint[] = [
   { key: 'escape', label: 'Cancel Room', displayKey: 'Esc' },
 ];
 
+const wallKeyHints: KeyHint[] = [
+  { key: 'enter', label: 'Finish Walls', displayKey: '↵' },
+  { key: 'escape', label: 'Stop Drawing', displayKey: 'Esc' },
+];
+
+const dimensionKeyHints: KeyHint[] = [
+  { key: 'enter', label: 'Pin Dimension', displayKey: '↵' },
+  { key: 'escape', label: 'Cancel Dimension', displayKey: 'Esc' },
+];
+
 export default function KeyboardManager({ 
   currentItem, 
   onItemChange,
@@ -63,7 +79,13 @@ export default function KeyboardManager({
   roomShortcutsEnabled = false,
   onRoomConfirm,
   onRoomCancel,
-  roomBuilderIsValid = true
+  roomBuilderIsValid = true,
+  dimensionShortcutsEnabled = false,
+  onDimensionConfirm,
+  onDimensionCancel,
+  dimensionDraftIsValid = false,
+  wallShortcutsEnabled = false,
+  onWallChainFinish
 }: KeyboardManagerProps) {
   const [pressedKeys, setPressedKeys] = useState<Set<string>>(new Set());
   const [isClient, setIsClient] = useState(false);
@@ -93,6 +115,29 @@ export default function KeyboardManager({
         }
       }
 
+      if (!keyPressed && dimensionShortcutsEnabled) {
+        switch (lowerKey) {
+          case 'enter':
+            onDimensionConfirm?.();
+            keyPressed = 'enter';
+            break;
+          case 'escape':
+            onDimensionCancel?.();
+            keyPressed = 'escape';
+            break;
+        }
+      }
+
+      if (!keyPressed && wallShortcutsEnabled) {
+        switch (lowerKey) {
+          case 'enter':
+          case 'escape':
+            onWallChainFinish?.();
+            keyPressed = lowerKey;
+            break;
+        }
+      }
+
       if (keyPressed) {
         e.preventDefault();
       } else if (isEditingMode) {
@@ -225,7 +270,12 @@ export default function KeyboardManager({
     onDeleteSelectedItems,
     roomShortcutsEnabled,
     onRoomConfirm,
-    onRoomCancel
+    onRoomCancel,
+    dimensionShortcutsEnabled,
+    onDimensionConfirm,
+    onDimensionCancel,
+    wallShortcutsEnabled,
+    onWallChainFinish
   ]);
 
   // Don't render during SSR to prevent hydration mismatches
@@ -237,7 +287,7 @@ export default function KeyboardManager({
   // 1. We have a current item (placing new items)
   // 2. We have selected items (editing existing items)
   // 3. We're in editing mode (even if selection is temporarily empty)
-  if (!currentItem && selectedItems.length === 0 && !isEditingMode && !roomShortcutsEnabled) {
+  if (!currentItem && selectedItems.length === 0 && !isEditingMode && !roomShortcutsEnabled && !dimensionShortcutsEnabled) {
     return null;
   }
 
@@ -245,6 +295,10 @@ export default function KeyboardManager({
 
   const hints = roomShortcutsEnabled
     ? roomKeyHints
+    : dimensionShortcutsEnabled
+    ? dimensionKeyHints
+    : wallShortcutsEnabled
+    ? wallKeyHints
     : (
         (currentItem || selectedItems.length > 0)
           ? transformKeyHints
@@ -270,6 +324,8 @@ export default function KeyboardManager({
             const isDisabled = hint.key === 'enter'
               ? roomShortcutsEnabled
                 ? !roomBuilderIsValid
+                : dimensionShortcutsEnabled
+                ? !dimensionDraftIsValid
                 : isEditingMode && !hasValidPlacement
               : false;
             
@@ -1,11 +1,21 @@
-import { PlacedItem, PlacedEntity, WallItem } from '@/app/plans/[planId]/types';
+import { DimensionItem, PlacedItem, PlacedEntity, PlanUnits, WallItem, isPlacedItem } from '@/app/plans/[planId]/types';
 import { SelectionManager } from './SelectionManager';
 import { getItemLayer, getLayerOrder } from '@/utils/layering';
+import { isPointNearDimension } from '@/utils/dimensions';
+import { WallEndRef, moveWallEnds } from '@/utils/wallGraph';
+import { buildWallOutlines, isPointInWallOutline } from '@/utils/wallOutline';
+import { ResizeHandle, resizeParametricItem } from '@/utils/parametric';
+
+// Extra reach around a wall's outline so thin walls stay easy to click
+const WALL_HIT_TOLERANCE = 10;
 
 export interface MouseState {
   isDraggingSelection: boolean;
   dragStartPos: { x: number; y: number } | null;
   hasDraggedItems: boolean;
+  draggedWallEnds: WallEndRef[] | null;
+  nodeGrabOffset: { x: number; y: number } | null; // dragged junction relative to the pointer
+  resizeHandle: ResizeHandle | null; // edge of the selected parametric item being dragged
 }
 
 export class MouseInteractionManager {
@@ -28,6 +38,14 @@ export class MouseInteractionManager {
     return this.state.hasDraggedItems;
   }
 
+  get isDraggingNode(): boolean {
+    return this.state.draggedWallEnds !== null;
+  }
+
+  get resizeHandle(): ResizeHandle | null {
+    return this.state.resizeHandle;
+  }
+
 
   startDragSelection(startX: number, startY: number) {
     this.state.isDraggingSelection = true;
@@ -66,6 +84,50 @@ export class MouseInteractionManager {
     return { movedItems, snapGuides: undefined };
   }
 
+  startNodeDrag(ends: WallEndRef[], node: { x: number; y: number }, startX: number, startY: number) {
+    this.state.draggedWallEnds = ends;
+    this.state.dragStartPos = { x: startX, y: startY };
+    this.state.nodeGrabOffset = { x: node.x - startX, y: node.y - startY };
+    this.state.hasDraggedItems = false;
+    this.emitStateChange();
+  }
+
+  /**
+   * Move the dragged junction and every wall end attached to it, keeping the junction where it
+   * was grabbed relative to the pointer. Small jitters on click don't count as a drag.
+   */
+  updateNodeDrag(currentX: number, currentY: number, placedEntities: PlacedEntity[]): PlacedEntity[] | null {
+    const { draggedWallEnds, dragStartPos, nodeGrabOffset } = this.state;
+    if (!draggedWallEnds || !dragStartPos || !nodeGrabOffset) return null;
+
+    if (!this.state.hasDraggedItems &&
+      Math.abs(currentX - dragStartPos.x) <= 1 &&
+      Math.abs(currentY - dragStartPos.y) <= 1) {
+      return null;
+    }
+
+    this.state.hasDraggedItems = true;
+    this.emitStateChange();
+    return moveWallEnds(placedEntities, draggedWallEnds, currentX + nodeGrabOffset.x, currentY + nodeGrabOffset.y);
+  }
+
+  startResize(handle: ResizeHandle) {
+    this.state.resizeHandle = handle;
+    this.state.hasDraggedItems = false;
+    this.emitStateChange();
+  }
+
+  /**
+   * Move the grabbed edge of a parametric item to the pointer.
+   */
+  updateResize(currentX: number, currentY: number, item: PlacedItem, units: PlanUnits): PlacedItem | null {
+    if (!this.state.resizeHandle) return null;
+
+    this.state.hasDraggedItems = true;
+    this.emitStateChange();
+    return resizeParametricItem(item, this.state.resizeHandle, currentX, currentY, units);
+  }
+
   endDragSelection() {
     this.state.isDraggingSelection = false;
     this.state.dragStartPos = null;
@@ -79,7 +141,8 @@ export class MouseInteractionManager {
   ): PlacedEntity | undefined {
     // Separate walls and items
     const walls = placedEntities.filter(entity => entity.type === 'wall') as WallItem[];
-    const items = placedEntities.filter(entity => entity.type !== 'wall') as PlacedItem[];
+    const items = placedEntities.filter(isPlacedItem);
+    const dimensions = placedEntities.filter((entity): entity is DimensionItem => entity.type === 'dimension');
     
     // Group items by layer priority (highest to lowest)
     const layerOrder = getLayerOrder().reverse(); // Reverse to get highest priority first
@@ -108,14 +171,18 @@ export class MouseInteractionManager {
       }
     }
     
-    // Check walls last (lowest priority)
+    // Pinned dimension lines sit above walls but below items
+    for (const dimension of dimensions) {
+      if (isPointNearDimension(dimension, walls, stageX, stageY)) {
+        return dimension;
+      }
+    }
+    
+    // Check walls last (lowest priority), against the same mitred outlines the canvas draws
+    const outlines = buildWallOutlines(walls);
     for (const wall of walls) {
-      const distanceToLine = this.distanceToLineSegment(
-        stageX, stageY,
-        wall.startX, wall.startY,
-        wall.endX, wall.endY
-      );
-      if (distanceToLine <= wall.thickness / 2 + 10) { // Add some tolerance
+      const outline = outlines.get(wall.id);
+      if (outline && isPointInWallOutline(outline, { x: stageX, y: stageY }, WALL_HIT_TOLERANCE)) {
         return wall;
       }
     }
@@ -123,47 +190,12 @@ export class MouseInteractionManager {
     return undefined;
   }
 
-  private distanceToLineSegment(
-    px: number, py: number,
-    x1: number, y1: number,
-    x2: number, y2: number
-  ): number {
-    const A = px - x1;
-    const B = py - y1;
-    const C = x2 - x1;
-    const D = y2 - y1;
-
-    const dot = A * C + B * D;
-    const lenSq = C * C + D * D;
-    
-    if (lenSq === 0) {
-      // x1 and x2 are the same point
-      return Math.sqrt(A * A + B * B);
-    }
-    
-    let param = dot / lenSq;
-    
-    let xx, yy;
-    
-    if (param < 0) {
-      xx = x1;
-      yy = y1;
-    } else if (param > 1) {
-      xx = x2;
-      yy = y2;
-    } else {
-      xx = x1 + param * C;
-      yy = y1 + param * D;
-    }
-    
-    const dx = px - xx;
-    const dy = py - yy;
-    return Math.sqrt(dx * dx + dy * dy);
-  }
-
   resetSelection() {
     this.state.isDraggingSelection = false;
     this.state.dragStartPos = null;
+    this.state.draggedWallEnds = null;
+    this.state.nodeGrabOffset = null;
+    this.state.resizeHandle = null;
     // Note: hasDraggedItems is NOT reset here - it needs to persist for click handler
     this.emitStateChange();
   }
@@ -171,6 +203,9 @@ export class MouseInteractionManager {
   resetDrag() {
     this.state.isDraggingSelection = false;
     this.state.dragStartPos = null;
+    this.state.draggedWallEnds = null;
+    this.state.nodeGrabOffset = null;
+    this.state.resizeHandle = null;
     this.state.hasDraggedItems = false;
     this.emitStateChange();
   }
@@ -178,6 +213,9 @@ export class MouseInteractionManager {
   resetAll() {
     this.state.isDraggingSelection = false;
     this.state.dragStartPos = null;
+    this.state.draggedWallEnds = null;
+    this.state.nodeGrabOffset = null;
+    this.state.resizeHandle = null;
     this.state.hasDraggedItems = false;
     this.emitStateChange();
   }
@@ -1,33 +1,40 @@
-import { PlacedItem, PlacedEntity, WallItem, GroupTransformation } from '@/app/plans/[planId]/types';
+import { v4 as uuidv4 } from 'uuid';
+import { PlacedItem, PlacedEntity, WallItem, GroupTransformation, ItemGroup, isPlacedItem } from '@/app/plans/[planId]/types';
+import { translateDimension } from '@/utils/dimensions';
 
 export class SelectionManager {
 
+  private static getEntityCenter(entity: PlacedEntity): { x: number; y: number } | null {
+    if (entity.type === 'wall') {
+      return { x: (entity.startX + entity.endX) / 2, y: (entity.startY + entity.endY) / 2 };
+    }
+
+    if (entity.type === 'dimension') {
+      // Wall-anchored points follow their walls, so only free points contribute
+      const freePoints = entity.anchors.filter((anchor) => anchor.kind === 'point');
+      if (freePoints.length === 0) return null;
+      return {
+        x: freePoints.reduce((sum, point) => sum + point.x, 0) / freePoints.length,
+        y: freePoints.reduce((sum, point) => sum + point.y, 0) / freePoints.length
+      };
+    }
+
+    return { x: entity.x, y: entity.y };
+  }
+
   static getSelectionCenter(selectedItems: PlacedEntity[]): { x: number; y: number } {
-    if (selectedItems.length === 0) return { x: 0, y: 0 };
-    
-    const sumX = selectedItems.reduce((sum, entity) => {
-      if (entity.type === 'wall') {
-        const wall = entity as WallItem;
-        return sum + (wall.startX + wall.endX) / 2;
-      } else {
-        const item = entity as PlacedItem;
-        return sum + item.x;
-      }
-    }, 0);
+    const centers = selectedItems
+      .map((entity) => this.getEntityCenter(entity))
+      .filter((center): center is { x: number; y: number } => center !== null);
+
+    if (centers.length === 0) return { x: 0, y: 0 };
     
-    const sumY = selectedItems.reduce((sum, entity) => {
-      if (entity.type === 'wall') {
-        const wall = entity as WallItem;
-        return sum + (wall.startY + wall.endY) / 2;
-      } else {
-        const item = entity as PlacedItem;
-        return sum + item.y;
-      }
-    }, 0);
+    const sumX = centers.reduce((sum, center) => sum + center.x, 0);
+    const sumY = centers.reduce((sum, center) => sum + center.y, 0);
     
     return {
-      x: sumX / selectedItems.length,
-      y: sumY / selectedItems.length
+      x: sumX / centers.length,
+      y: sumY / centers.length
     };
   }
 
@@ -134,6 +141,56 @@ export class SelectionManager {
     return [item];
   }
 
+  // Furniture groups are picked, moved and rotated as one, so selection always takes whole groups
+  static getGroupMembers(entity: PlacedEntity, placedEntities: PlacedEntity[]): PlacedEntity[] {
+    if (!isPlacedItem(entity) || !entity.group) return [entity];
+    const groupId = entity.group.id;
+    return placedEntities.filter((other) => isPlacedItem(other) && other.group?.id === groupId);
+  }
+
+  static selectEntityGroup(entity: PlacedEntity, placedEntities: PlacedEntity[]): PlacedEntity[] {
+    return this.getGroupMembers(entity, placedEntities);
+  }
+
+  static toggleEntityGroupSelection(
+    selectedItems: PlacedEntity[],
+    entity: PlacedEntity,
+    placedEntities: PlacedEntity[]
+  ): PlacedEntity[] {
+    const members = this.getGroupMembers(entity, placedEntities);
+    const memberIds = new Set(members.map((member) => member.id));
+
+    if (selectedItems.some((selected) => selected.id === entity.id)) {
+      return selectedItems.filter((selected) => !memberIds.has(selected.id));
+    }
+    return [...selectedItems.filter((selected) => !memberIds.has(selected.id)), ...members];
+  }
+
+  /**
+   * The group the selection is made of, or null when it mixes groups or loose entities.
+   */
+  static getSelectedGroup(selectedEntities: PlacedEntity[]): ItemGroup | null {
+    const [first] = selectedEntities;
+    if (!first || !isPlacedItem(first) || !first.group) return null;
+    const groupId = first.group.id;
+    return selectedEntities.every((entity) => isPlacedItem(entity) && entity.group?.id === groupId)
+      ? first.group
+      : null;
+  }
+
+  static groupItems(selectedItems: PlacedItem[], name: string): PlacedItem[] {
+    const group: ItemGroup = { id: uuidv4(), name: name.trim() || 'Group' };
+    return selectedItems.map((item) => ({ ...item, group }));
+  }
+
+  static ungroupItems(selectedItems: PlacedItem[]): PlacedItem[] {
+    return selectedItems.map((item) => ({ ...item, group: undefined }));
+  }
+
+  static renameGroup(selectedItems: PlacedItem[], name: string): PlacedItem[] {
+    return selectedItems.map((item) => (item.group ? { ...item, group: { ...item.group, name } } : item));
+  }
+
   // New entity selection methods
   static toggleEntitySelection(
     selectedItems: PlacedEntity[], 
@@ -158,6 +215,10 @@ export class SelectionManager {
     deltaY: number
   ): PlacedEntity[] {
     return selectedEntities.map(entity => {
+      if (entity.type === 'dimension') {
+        return translateDimension(entity, deltaX, deltaY);
+      }
+
       if (entity.type === 'wall') {
         const wall = entity as WallItem;
         return {
@@ -188,6 +249,8 @@ export class SelectionManager {
     const rotationRad = deltaRotation * (Math.PI / 180);
     
     return selectedEntities.map(entity => {
+      if (entity.type === 'dimension') return entity;
+
       if (entity.type === 'wall') {
         const wall = entity as WallItem;
         
@@ -236,6 +299,8 @@ export class SelectionManager {
     const center = this.getSelectionCenter(selectedEntities);
     
     return selectedEntities.map(entity => {
+      if (entity.type === 'dimension') return entity;
+
       if (entity.type === 'wall') {
         const wall = entity as WallItem;
         
@@ -277,6 +342,8 @@ export class SelectionManager {
     const center = this.getSelectionCenter(selectedEntities);
     
     return selectedEntities.map(entity => {
+      if (entity.type === 'dimension') return entity;
+
       if (entity.type === 'wall') {
         const wall = entity as WallItem;
         
@@ -285,10 +352,12 @@ export class SelectionManager {
           const startRelX = wall.startX - center.x;
           const endRelX = wall.endX - center.x;
           
+          // Mirroring reverses the arc's turning direction
           return {
             ...wall,
             startX: center.x - startRelX,
-            endX: center.x - endRelX
+            endX: center.x - endRelX,
+            bulge: wall.bulge ? -wall.bulge : wall.bulge
           };
         } else {
           // Flip vertically around center
@@ -298,7 +367,8 @@ export class SelectionManager {
           return {
             ...wall,
             startY: center.y - startRelY,
-            endY: center.y - endRelY
+            endY: center.y - endRelY,
+            bulge: wall.bulge ? -wall.bulge : wall.bulge
           };
         }
       } else {
@@ -1,4 +1,5 @@
-import { Item, PlacedItem, WallItem, PlacedEntity } from '@/app/plans/[planId]/types';
+import { Item, PlacedItem, WallItem, PlacedEntity, isPlacedItem } from '@/app/plans/[planId]/types';
+import { getArcGeometry, projectOntoWall } from '@/utils/wallArcs';
 
 interface SnapOptions {
   snapDistance?: number;
@@ -84,9 +85,9 @@ export class SnapManager {
           snapLineY = result.snapLineY;
           foundSnapY = true;
         }
-      } else {
+      } else if (isPlacedItem(entity)) {
         const result = this.snapToItem(
-          entity as PlacedItem,
+          entity,
           currentLeft,
           currentRight,
           currentTop,
@@ -136,6 +137,11 @@ export class SnapManager {
     foundSnapX: boolean,
     foundSnapY: boolean
   ): { x: number; y: number; snappedX: boolean; snappedY: boolean; snapLineX?: number; snapLineY?: number } {
+    const arcResult = this.snapToArcWall(wall, mouseX, mouseY, adjustedSnapDistance, foundSnapX, foundSnapY);
+    if (arcResult) {
+      return arcResult;
+    }
+
     const { startX, startY, endX, endY } = wall;
     let resultX = mouseX;
     let resultY = mouseY;
@@ -164,7 +170,8 @@ export class SnapManager {
       resultSnapY = true;
     }
 
-    if (!resultSnapX || !resultSnapY) {
+    // Curved walls have no straight edges to align with
+    if ((!resultSnapX || !resultSnapY) && !getArcGeometry(wall)) {
       const wallResult = this.snapToWallEdges(
         wall,
         mouseX,
@@ -199,6 +206,53 @@ export class SnapManager {
     };
   }
 
+  private snapToArcWall(
+    wall: WallItem,
+    mouseX: number,
+    mouseY: number,
+    adjustedSnapDistance: number,
+    foundSnapX: boolean,
+    foundSnapY: boolean
+  ): { x: number; y: number; snappedX: boolean; snappedY: boolean; snapLineX?: number; snapLineY?: number } | null {
+    const arc = getArcGeometry(wall);
+    if (!arc) return null;
+
+    if (foundSnapX || foundSnapY) return null;
+
+    const projection = projectOntoWall(wall, { x: mouseX, y: mouseY });
+    if (projection.t <= 0 || projection.t >= 1) return null;
+
+    // Snap radially onto the centreline or either face of the curved wall; separators have no faces
+    const radialDistance = Math.hypot(mouseX - arc.center.x, mouseY - arc.center.y);
+    if (radialDistance === 0) return null;
+
+    const halfThickness = wall.thickness / 2;
+    const radii = wall.separator
+      ? [arc.radius]
+      : [arc.radius, arc.radius - halfThickness, arc.radius + halfThickness];
+
+    let bestRadius: number | null = null;
+    let bestDistance = adjustedSnapDistance;
+    for (const radius of radii) {
+      const radiusDistance = Math.abs(radialDistance - radius);
+      if (radiusDistance < bestDistance) {
+        bestDistance = radiusDistance;
+        bestRadius = radius;
+      }
+    }
+
+    if (bestRadius === null) return null;
+
+    const ratio = bestRadius / radialDistance;
+    // Arc snaps have no axis-aligned guide line
+    return {
+      x: arc.center.x + (mouseX - arc.center.x) * ratio,
+      y: arc.center.y + (mouseY - arc.center.y) * ratio,
+      snappedX: true,
+      snappedY: true
+    };
+  }
+
   private snapToWallEdges(
     wall: WallItem,
     mouseX: number,
@@ -1,8 +1,33 @@
 import { WallItem, PlacedEntity } from '@/app/plans/[planId]/types';
+import { Point } from '@/app/lib/types';
+import { angleBetweenPoints, distance, snapAngle } from '@/app/lib/geometry';
 import { v4 as uuidv4 } from 'uuid';
+import { bulgeThroughPoint, projectOntoWall } from '@/utils/wallArcs';
+
+const DEFAULT_WALL_THICKNESS = 16;
+export const WALL_JOIN_TOLERANCE = 12;
+
+// 0 leaves the segment angle free
+export type WallAngleLock = 0 | 15 | 45 | 90;
+export const WALL_ANGLE_LOCK_OPTIONS: WallAngleLock[] = [0, 15, 45, 90];
 
 export interface WallState {
   startPoint: { x: number; y: number } | null;
+  chainStartPoint: { x: number; y: number } | null;
+  chainWallCount: number;
+  angleLock: WallAngleLock;
+  arcMode: boolean;
+  // Arc mode: chord end picked, waiting for the click that sets the curvature
+  pendingArcEnd: { x: number; y: number } | null;
+  // Draw room separators instead of walls
+  separatorMode: boolean;
+}
+
+export interface ResolvedWallPoint {
+  x: number;
+  y: number;
+  joined: boolean;
+  closesChain: boolean;
 }
 
 export class WallManager {
@@ -25,13 +50,114 @@ export class WallManager {
     return this.state.startPoint !== null;
   }
 
+  get canCloseChain(): boolean {
+    return this.state.chainStartPoint !== null && this.state.chainWallCount >= 2;
+  }
+
+  get angleLock(): WallAngleLock {
+    return this.state.angleLock;
+  }
+
+  setAngleLock(angleLock: WallAngleLock) {
+    this.state.angleLock = angleLock;
+    this.emitStateChange();
+  }
+
+  get arcMode(): boolean {
+    return this.state.arcMode;
+  }
+
+  get pendingArcEnd(): { x: number; y: number } | null {
+    return this.state.pendingArcEnd;
+  }
+
+  setArcMode(arcMode: boolean) {
+    this.state.arcMode = arcMode;
+    this.state.pendingArcEnd = null;
+    this.emitStateChange();
+  }
+
+  get separatorMode(): boolean {
+    return this.state.separatorMode;
+  }
+
+  setSeparatorMode(separatorMode: boolean) {
+    this.state.separatorMode = separatorMode;
+    this.emitStateChange();
+  }
+
+  setPendingArcEnd(x: number, y: number) {
+    if (!this.state.startPoint || distance(this.state.startPoint, { x, y }) < 1e-6) return;
+    this.state.pendingArcEnd = { x, y };
+    this.emitStateChange();
+  }
+
+  /**
+   * Bulge of the arc from the current node to the pending chord end passing through the cursor.
+   */
+  previewBulge(x: number, y: number): number {
+    const { startPoint, pendingArcEnd } = this.state;
+    if (!startPoint || !pendingArcEnd) return 0;
+    return bulgeThroughPoint(startPoint, pendingArcEnd, { x, y });
+  }
+
   setStartPoint(x: number, y: number) {
     this.state.startPoint = { x, y };
+    this.state.chainStartPoint = { x, y };
+    this.state.chainWallCount = 0;
+    this.state.pendingArcEnd = null;
     this.emitStateChange();
   }
 
-  createWall(endX: number, endY: number): WallItem | null {
+  /**
+   * Resolve the cursor to the next polyline node. Existing wall endpoints and the first node of
+   * the chain win over the angle lock so joins always land exactly on a shared endpoint.
+   */
+  resolvePoint(
+    x: number,
+    y: number,
+    placedEntities: PlacedEntity[],
+    tolerance: number = WALL_JOIN_TOLERANCE
+  ): ResolvedWallPoint {
+    const target = { x, y };
+    const { startPoint, chainStartPoint } = this.state;
+
+    if (this.canCloseChain && chainStartPoint && distance(target, chainStartPoint) <= tolerance) {
+      return { ...chainStartPoint, joined: true, closesChain: true };
+    }
+
+    const endpoint = this.findNearestEndpoint(target, placedEntities, tolerance);
+    if (endpoint) {
+      return { ...endpoint, joined: true, closesChain: false };
+    }
+
+    // Landing on a wall body forms a T-junction; the host wall is split when the wall is committed
+    const wallPoint = this.findNearestWallPoint(target, placedEntities, tolerance);
+    if (wallPoint) {
+      return { ...wallPoint, joined: true, closesChain: false };
+    }
+
+    // The curve point of an arc is free, only chord ends follow the angle lock
+    if (startPoint && !this.state.pendingArcEnd && this.state.angleLock > 0) {
+      return { ...this.lockAngle(startPoint, target), joined: false, closesChain: false };
+    }
+
+    return { x, y, joined: false, closesChain: false };
+  }
+
+  /**
+   * Add the next segment of the polyline and continue drawing from its end. In separator mode the
+   * segment is a zero-thickness separator. Returns null for zero-length segments, e.g. the repeated
+   * click of a double-click.
+   */
+  createWall(
+    endX: number,
+    endY: number,
+    thickness: number = DEFAULT_WALL_THICKNESS,
+    bulge: number = 0
+  ): WallItem | null {
     if (!this.state.startPoint) return null;
+    if (distance(this.state.startPoint, { x: endX, y: endY }) < 1e-6) return null;
 
     const wall: WallItem = {
       id: uuidv4(),
@@ -40,18 +166,102 @@ export class WallManager {
       startY: this.state.startPoint.y,
       endX,
       endY,
-      thickness: 16
+      thickness: this.state.separatorMode ? 0 : thickness,
+      ...(bulge !== 0 && { bulge }),
+      ...(this.state.separatorMode && { separator: true })
     };
 
+    this.state.startPoint = { x: endX, y: endY };
+    this.state.pendingArcEnd = null;
+    this.state.chainWallCount += 1;
+    this.emitStateChange();
+    return wall;
+  }
+
+  /**
+   * Finish the pending arc so it passes through the given point. Arcs ending on the first node
+   * close the chain. Clicking the arc end again (e.g. a double-click) commits nothing.
+   */
+  createArcWall(throughX: number, throughY: number, thickness: number = DEFAULT_WALL_THICKNESS): WallItem | null {
+    const { pendingArcEnd, chainStartPoint } = this.state;
+    if (!pendingArcEnd || distance(pendingArcEnd, { x: throughX, y: throughY }) < 1e-6) return null;
+
+    const closesChain = this.canCloseChain && chainStartPoint !== null && distance(pendingArcEnd, chainStartPoint) < 1e-6;
+    const wall = this.createWall(pendingArcEnd.x, pendingArcEnd.y, thickness, this.previewBulge(throughX, throughY));
+    if (closesChain) {
+      this.reset();
+    }
+    return wall;
+  }
+
+  /**
+   * Connect the current node back to the first node of the chain and stop drawing.
+   */
+  closeChain(thickness: number = DEFAULT_WALL_THICKNESS): WallItem | null {
+    const { chainStartPoint } = this.state;
+    if (!this.canCloseChain || !chainStartPoint) return null;
+
+    const wall = this.createWall(chainStartPoint.x, chainStartPoint.y, thickness);
     this.reset();
     return wall;
   }
 
   reset() {
     this.state.startPoint = null;
+    this.state.chainStartPoint = null;
+    this.state.chainWallCount = 0;
+    this.state.pendingArcEnd = null;
     this.emitStateChange();
   }
 
+  private lockAngle(origin: Point, target: Point): Point {
+    const length = distance(origin, target);
+    const angle = snapAngle(angleBetweenPoints(origin, target), this.state.angleLock) * Math.PI / 180;
+
+    return {
+      x: origin.x + Math.cos(angle) * length,
+      y: origin.y + Math.sin(angle) * length
+    };
+  }
+
+  private findNearestEndpoint(target: Point, placedEntities: PlacedEntity[], tolerance: number): Point | null {
+    let best: Point | null = null;
+    let bestDistance = tolerance;
+
+    placedEntities.forEach((entity) => {
+      if (entity.type !== 'wall') return;
+
+      [{ x: entity.startX, y: entity.startY }, { x: entity.endX, y: entity.endY }].forEach((point) => {
+        const pointDistance = distance(target, point);
+        if (pointDistance <= bestDistance) {
+          best = point;
+          bestDistance = pointDistance;
+        }
+      });
+    });
+
+    return best;
+  }
+
+  private findNearestWallPoint(target: Point, placedEntities: PlacedEntity[], tolerance: number): Point | null {
+    let best: Point | null = null;
+    let bestDistance = tolerance;
+
+    placedEntities.forEach((entity) => {
+      if (entity.type !== 'wall') return;
+
+      const { point, t, distance: pointDistance } = projectOntoWall(entity, target);
+      if (t <= 0 || t >= 1) return;
+
+      if (pointDistance <= bestDistance) {
+        best = point;
+        bestDistance = pointDistance;
+      }
+    });
+
+    return best;
+  }
+
   private emitStateChange() {
     this.onStateChange({ ...this.state });
   }
@@ -0,0 +1,152 @@
+import type { CatalogCategory, Clearance, Item, ParametricLimits, RealDimensions, RoomType } from '@/app/plans/[planId]/types';
+// The backend agent imports this module too, so it only depends on the manifest at runtime
+import manifest from '../../public/icons/catalog.json';
+
+export type CatalogEntry = Omit<Item, 'width' | 'height' | 'inverted' | 'rotation' | 'scale'> & {
+  category: CatalogCategory;
+  tags: string[];
+  roomTypes: RoomType[];
+};
+
+export const CATALOG_CATEGORIES: { id: CatalogCategory; label: string }[] = [
+  { id: 'beds', label: 'Beds' },
+  { id: 'seating', label: 'Seating' },
+  { id: 'tables', label: 'Tables' },
+  { id: 'kitchen', label: 'Kitchen' },
+  { id: 'bathroom', label: 'Bathroom' },
+  { id: 'office', label: 'Office' },
+  { id: 'storage', label: 'Storage' },
+  { id: 'entertainment', label: 'Entertainment' },
+  { id: 'stairs', label: 'Stairs' },
+  { id: 'utility', label: 'Utility' },
+  { id: 'flooring', label: 'Flooring' },
+  { id: 'doors', label: 'Doors' },
+  { id: 'windows', label: 'Windows' },
+  { id: 'walls', label: 'Walls' },
+  { id: 'custom', label: 'Custom' }
+];
+
+const FILE_PATTERN = /^[\w-]+$/;
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+
+// A record rather than the list in roomTypes.ts so this module keeps no runtime imports, while the
+// compiler still flags a room type missing here
+const KNOWN_ROOM_TYPES: Record<RoomType, true> = {
+  bedroom: true,
+  bathroom: true,
+  kitchen: true,
+  living: true,
+  circulation: true,
+  utility: true,
+  garage: true,
+  outdoor: true
+};
+
+const isRoomType = (value: string): value is RoomType => Object.prototype.hasOwnProperty.call(KNOWN_ROOM_TYPES, value);
+
+function normalizeDimensions(value: unknown): RealDimensions | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const { width, depth } = value as Partial<RealDimensions>;
+  return isPositive(width) && isPositive(depth) ? { width, depth } : undefined;
+}
+
+function normalizeClearance(value: unknown): Clearance | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const candidate = value as Clearance;
+  const clearance: Clearance = {};
+  (['front', 'back', 'left', 'right'] as const).forEach((side) => {
+    if (isPositive(candidate[side])) {
+      clearance[side] = candidate[side];
+    }
+  });
+  return Object.keys(clearance).length > 0 ? clearance : undefined;
+}
+
+function normalizeRange(value: unknown): [number, number] | undefined {
+  if (!Array.isArray(value) || value.length !== 2) return undefined;
+  const [min, max] = value;
+  return isPositive(min) && isPositive(max) && min <= max ? [min, max] : undefined;
+}
+
+function normalizeParametric(value: unknown): ParametricLimits | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const candidate = value as Partial<Record<keyof ParametricLimits, unknown>>;
+  const width = normalizeRange(candidate.width);
+  const depth = normalizeRange(candidate.depth);
+  return width && depth ? { width, depth } : undefined;
+}
+
+function normalizeEntry(value: unknown): CatalogEntry | null {
+  if (!value || typeof value !== 'object') return null;
+  const candidate = value as Partial<CatalogEntry>;
+  if (typeof candidate.file !== 'string' || !FILE_PATTERN.test(candidate.file)) return null;
+  if (candidate.type !== 'furniture' && candidate.type !== 'foundational') return null;
+  if (!CATALOG_CATEGORIES.some((category) => category.id === candidate.category)) return null;
+
+  return {
+    file: candidate.file,
+    name: typeof candidate.name === 'string' && candidate.name.trim() ? candidate.name.trim() : candidate.file,
+    type: candidate.type,
+    subtype: candidate.subtype === 'door' || candidate.subtype === 'window' ? candidate.subtype : undefined,
+    category: candidate.category as CatalogCategory,
+    tags: isStringArray(candidate.tags) ? candidate.tags.map((tag) => tag.toLowerCase()) : [],
+    dimensions: normalizeDimensions(candidate.dimensions),
+    parametric: normalizeParametric(candidate.parametric),
+    clearance: normalizeClearance(candidate.clearance),
+    price: typeof candidate.price === 'number' && candidate.price >= 0 ? candidate.price : undefined,
+    roomTypes: isStringArray(candidate.roomTypes) ? candidate.roomTypes.filter(isRoomType) : []
+  };
+}
+
+/**
+ * Entries of a catalog manifest that describe a usable item. Malformed entries are dropped and the
+ * first entry wins when a file is listed twice.
+ */
+export function normalizeCatalog(value: unknown): CatalogEntry[] {
+  const items = value && typeof value === 'object' ? (value as { items?: unknown }).items : undefined;
+  if (!Array.isArray(items)) return [];
+
+  const seen = new Set<string>();
+  return items.flatMap((item) => {
+    const entry = normalizeEntry(item);
+    if (!entry || seen.has(entry.file)) return [];
+    seen.add(entry.file);
+    return [entry];
+  });
+}
+
+export const CATALOG: CatalogEntry[] = normalizeCatalog(manifest);
+
+export function findCatalogEntry(file: string): CatalogEntry | undefined {
+  return CATALOG.find((entry) => entry.file === file);
+}
+
+export function getCatalogFiles(filter: Partial<Pick<CatalogEntry, 'type' | 'subtype' | 'category'>> = {}): string[] {
+  return CATALOG
+    .filter((entry) => (
+      (!filter.type || entry.type === filter.type) &&
+      (!filter.subtype || entry.subtype === filter.subtype) &&
+      (!filter.category || entry.category === filter.category)
+    ))
+    .map((entry) => entry.file);
+}
+
+export function getIconSource(item: Pick<Item, 'type' | 'file' | 'src'>): string {
+  return item.src ?? `/icons/${item.type}/${item.file}.svg`;
+}
+
+/**
+ * One line per category listing its files, for prompts that must only use catalog items.
+ */
+export function describeCatalog(type?: CatalogEntry['type']): string {
+  return CATALOG_CATEGORIES
+    .map((category) => ({ label: category.label, files: getCatalogFiles({ type, category: category.id }) }))
+    .filter(({ files }) => files.length > 0)
+    .map(({ label, files }) => `- ${label}: ${files.join(', ')}`)
+    .join('\n');
+}
@@ -0,0 +1,246 @@
+import {
+  FlooringMaterial,
+  FlooringType,
+  Item,
+  NOT_IN_ROOM_ID,
+  PlanLevel,
+  PlacedItem,
+  PlanUnits,
+  PriceTable,
+  UnitSystem,
+  WallItem,
+  WallMaterial,
+  isPlacedItem
+} from '@/app/plans/[planId]/types';
+import { BUILT_IN_FLOORINGS, getFlooringLabel, isBuiltInFlooring } from './flooring';
+import { escapeCsvField } from './roomSchedule';
+import { computeRooms } from './roomUtils';
+import { pixelsToMeters, squareMetersToDisplayUnits, squarePixelsToSquareMeters } from './units';
+import { getWallLength } from './wallArcs';
+import { WALL_MATERIALS, WALL_MATERIAL_STYLES, getWallProperties } from './wallProperties';
+
+export type QuantityCategory = 'flooring' | 'walls' | 'items';
+
+export const QUANTITY_CATEGORIES: { id: QuantityCategory; label: string }[] = [
+  { id: 'flooring', label: 'Flooring' },
+  { id: 'walls', label: 'Walls' },
+  { id: 'items', label: 'Furniture & fittings' }
+];
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD'];
+export const DEFAULT_CURRENCY = 'USD';
+
+// Plans don't store opening heights, so doors and windows take off a typical opening
+const DOOR_OPENING_HEIGHT_METERS = 2.1;
+const WINDOW_OPENING_HEIGHT_METERS = 1.2;
+
+export interface QuantityLine {
+  key: string;
+  category: QuantityCategory;
+  label: string;
+  unit: 'area' | 'count';
+  quantity: number; // square metres or items
+  unitPrice: number; // per square metre or per item
+  cost: number;
+}
+
+export interface CostEstimate {
+  currency: string;
+  lines: QuantityLine[];
+  subtotals: Record<QuantityCategory, number>;
+  total: number;
+}
+
+export const flooringPriceKey = (flooring: FlooringType) => `flooring:${flooring}`;
+export const wallPriceKey = (material: WallMaterial) => `wall:${material}`;
+export const itemPriceKey = (file: string) => `item:${file}`;
+
+export function createPriceTable(): PriceTable {
+  return { currency: DEFAULT_CURRENCY, unitPrices: {} };
+}
+
+export function normalizePriceTable(value: unknown): PriceTable {
+  if (!value || typeof value !== 'object') return createPriceTable();
+
+  const candidate = value as Partial<PriceTable>;
+  const unitPrices: Record<string, number> = {};
+  if (candidate.unitPrices && typeof candidate.unitPrices === 'object') {
+    Object.entries(candidate.unitPrices).forEach(([key, price]) => {
+      if (typeof price === 'number' && Number.isFinite(price) && price >= 0) {
+        unitPrices[key] = price;
+      }
+    });
+  }
+
+  return {
+    currency: typeof candidate.currency === 'string' && CURRENCIES.includes(candidate.currency)
+      ? candidate.currency
+      : DEFAULT_CURRENCY,
+    unitPrices
+  };
+}
+
+function flooringOrder(flooring: FlooringType): number {
+  return isBuiltInFlooring(flooring) ? BUILT_IN_FLOORINGS.indexOf(flooring) : BUILT_IN_FLOORINGS.length;
+}
+
+/**
+ * Bill of quantities across every level: net floor area per flooring, wall area per wall material
+ * and a count per catalog item, each priced from the table or else the catalog's price. Wall area
+ * is one face of the wall (length by height, not both sides) less the doors and windows in it.
+ * Separators have no wall to build and stair arrivals are the staircase already counted on the
+ * level below.
+ */
+export function buildCostEstimate(
+  levels: PlanLevel[],
+  units: PlanUnits,
+  materials: FlooringMaterial[],
+  catalog: Item[],
+  prices: PriceTable
+): CostEstimate {
+  const flooringAreas = new Map<FlooringType, number>();
+  const wallAreas = new Map<WallMaterial, number>();
+  const itemCounts = new Map<string, number>();
+
+  levels.forEach((level) => {
+    computeRooms(level.roomDefinitions, level.placedEntities)
+      .filter((room) => room.id !== NOT_IN_ROOM_ID && room.polygonPoints.length >= 6)
+      .forEach((room) => {
+        const area = squarePixelsToSquareMeters(room.usableArea, units);
+        flooringAreas.set(room.flooring, (flooringAreas.get(room.flooring) ?? 0) + area);
+      });
+
+    const openingsByWall = new Map<string, PlacedItem[]>();
+    level.placedEntities.filter(isPlacedItem).forEach((item) => {
+      if (!item.attachedToWallId || (item.subtype !== 'door' && item.subtype !== 'window')) return;
+      openingsByWall.set(item.attachedToWallId, [...(openingsByWall.get(item.attachedToWallId) ?? []), item]);
+    });
+
+    level.placedEntities
+      .filter((entity): entity is WallItem => entity.type === 'wall')
+      .forEach((wall) => {
+        const { height, material, separator } = getWallProperties(wall);
+        if (separator) return;
+        const openings = (openingsByWall.get(wall.id) ?? []).reduce((sum, item) => {
+          const openingHeight = item.subtype === 'door' ? DOOR_OPENING_HEIGHT_METERS : WINDOW_OPENING_HEIGHT_METERS;
+          return sum + pixelsToMeters(item.width * item.scale, units) * Math.min(openingHeight, height);
+        }, 0);
+        const area = Math.max(0, pixelsToMeters(getWallLength(wall), units) * height - openings);
+        wallAreas.set(material, (wallAreas.get(material) ?? 0) + area);
+      });
+
+    level.placedEntities
+      .filter(isPlacedItem)
+      .filter((item) => !item.stairsFrom)
+      .forEach((item) => {
+        itemCounts.set(item.file, (itemCounts.get(item.file) ?? 0) + 1);
+      });
+  });
+
+  const priced = (line: Omit<QuantityLine, 'unitPrice' | 'cost'>, defaultPrice = 0): QuantityLine => {
+    const unitPrice = prices.unitPrices[line.key] ?? defaultPrice;
+    return { ...line, unitPrice, cost: line.quantity * unitPrice };
+  };
+
+  const flooringLines = Array.from(flooringAreas.entries())
+    .sort(([a], [b]) => (
+      flooringOrder(a) - flooringOrder(b) ||
+      getFlooringLabel(a, materials).localeCompare(getFlooringLabel(b, materials))
+    ))
+    .map(([flooring, quantity]) => priced({
+      key: flooringPriceKey(flooring),
+      category: 'flooring',
+      label: getFlooringLabel(flooring, materials),
+      unit: 'area',
+      quantity
+    }));
+
+  const wallLines = WALL_MATERIALS
+    .filter((material) => (wallAreas.get(material) ?? 0) > 0)
+    .map((material) => priced({
+      key: wallPriceKey(material),
+      category: 'walls',
+      label: WALL_MATERIAL_STYLES[material].label,
+      unit: 'area',
+      quantity: wallAreas.get(material) ?? 0
+    }));
+
+  const itemLines = Array.from(itemCounts.entries())
+    .map(([file, quantity]) => {
+      const catalogItem = catalog.find((item) => item.file === file);
+      return priced({
+        key: itemPriceKey(file),
+        category: 'items',
+        label: catalogItem?.name ?? file,
+        unit: 'count',
+        quantity
+      }, catalogItem?.price);
+    })
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const lines = [...flooringLines, ...wallLines, ...itemLines].filter((line) => line.quantity > 0);
+  const subtotals: Record<QuantityCategory, number> = { flooring: 0, walls: 0, items: 0 };
+  lines.forEach((line) => {
+    subtotals[line.category] += line.cost;
+  });
+
+  return {
+    currency: prices.currency,
+    lines,
+    subtotals,
+    total: subtotals.flooring + subtotals.walls + subtotals.items
+  };
+}
+
+/**
+ * Quantity of a line in the plan's unit system: square feet for imperial areas.
+ */
+export function displayQuantity(line: QuantityLine, system: UnitSystem): number {
+  return line.unit === 'area' ? squareMetersToDisplayUnits(line.quantity, system) : line.quantity;
+}
+
+/**
+ * Unit price in the plan's unit system. Area prices are stored per square metre.
+ */
+export function displayUnitPrice(line: QuantityLine, system: UnitSystem): number {
+  return line.unit === 'area' ? line.unitPrice / squareMetersToDisplayUnits(1, system) : line.unitPrice;
+}
+
+export function unitPriceFromDisplay(line: QuantityLine, price: number, system: UnitSystem): number {
+  return line.unit === 'area' ? price * squareMetersToDisplayUnits(1, system) : price;
+}
+
+export function quantityUnitLabel(line: QuantityLine, system: UnitSystem): string {
+  if (line.unit === 'count') return line.quantity === 1 ? 'item' : 'items';
+  return system === 'imperial' ? 'ft²' : 'm²';
+}
+
+export function formatCurrency(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+}
+
+/**
+ * CSV export of an estimate in the plan's unit system, with subtotals per category and the total.
+ */
+export function buildCostEstimateCsv(estimate: CostEstimate, units: PlanUnits): string {
+  const money = (amount: number) => amount.toFixed(2);
+  const categoryLabel = (category: QuantityCategory) =>
+    QUANTITY_CATEGORIES.find((entry) => entry.id === category)?.label ?? category;
+
+  const lines = [
+    ['Category', 'Item', 'Quantity', 'Unit', `Unit price (${estimate.currency})`, `Cost (${estimate.currency})`],
+    ...estimate.lines.map((line) => [
+      categoryLabel(line.category),
+      line.label,
+      line.unit === 'area' ? displayQuantity(line, units.system).toFixed(2) : String(line.quantity),
+      line.unit === 'area' ? quantityUnitLabel(line, units.system) : 'item',
+      money(displayUnitPrice(line, units.system)),
+      money(line.cost)
+    ]),
+    [],
+    ...QUANTITY_CATEGORIES.map((category) => [category.label, '', '', '', '', money(estimate.subtotals[category.id])]),
+    ['Total', '', '', '', '', money(estimate.total)]
+  ];
+
+  return lines.map((fields) => fields.map(escapeCsvField).join(',')).join('\n');
+}
@@ -0,0 +1,223 @@
+import {
+  DimensionAnchor,
+  DimensionItem,
+  PlacedEntity,
+  WallItem
+} from '@/app/plans/[planId]/types';
+import { Point } from '@/app/lib/types';
+import { angleBetweenPoints, distance } from '@/app/lib/geometry';
+
+export const DEFAULT_DIMENSION_OFFSET = 32;
+export const DIMENSION_ANCHOR_TOLERANCE = 12;
+const DIMENSION_HIT_TOLERANCE = 6;
+
+export interface DimensionSegment {
+  start: Point;
+  end: Point;
+  mid: Point;
+  length: number;
+  angle: number; // degrees, screen orientation
+}
+
+export interface DimensionChainGeometry {
+  normal: Point; // unit vector pointing from the measured points towards the dimension line
+  ticks: Point[];
+  extensions: { from: Point; to: Point }[];
+  segments: DimensionSegment[];
+  total: DimensionSegment;
+}
+
+function buildWallLookup(walls: WallItem[]): Map<string, WallItem> {
+  return new Map(walls.map((wall) => [wall.id, wall]));
+}
+
+function makeSegment(start: Point, end: Point): DimensionSegment {
+  return {
+    start,
+    end,
+    mid: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+    length: distance(start, end),
+    angle: angleBetweenPoints(start, end)
+  };
+}
+
+export function resolveDimensionAnchor(
+  anchor: DimensionAnchor,
+  wallsById: Map<string, WallItem>
+): Point | null {
+  if (anchor.kind === 'point') {
+    return { x: anchor.x, y: anchor.y };
+  }
+
+  const wall = wallsById.get(anchor.wallId);
+  if (!wall) return null;
+
+  return anchor.endpoint === 'start'
+    ? { x: wall.startX, y: wall.startY }
+    : { x: wall.endX, y: wall.endY };
+}
+
+export function resolveDimensionPoints(dimension: DimensionItem, walls: WallItem[]): Point[] | null {
+  const wallsById = buildWallLookup(walls);
+  const points: Point[] = [];
+
+  for (const anchor of dimension.anchors) {
+    const point = resolveDimensionAnchor(anchor, wallsById);
+    if (!point) return null;
+    points.push(point);
+  }
+
+  return points.length >= 2 ? points : null;
+}
+
+/**
+ * Snap a click to the nearest wall endpoint so the dimension follows that wall when it moves.
+ * Clicks away from any endpoint become fixed points.
+ */
+export function findDimensionAnchor(
+  walls: WallItem[],
+  x: number,
+  y: number,
+  tolerance = DIMENSION_ANCHOR_TOLERANCE
+): DimensionAnchor {
+  const target = { x, y };
+  let best: { anchor: DimensionAnchor; distance: number } | null = null;
+
+  // Plain loops so the compiler sees the assignments to `best` when narrowing it below
+  for (const wall of walls) {
+    for (const endpoint of ['start', 'end'] as const) {
+      const point = endpoint === 'start'
+        ? { x: wall.startX, y: wall.startY }
+        : { x: wall.endX, y: wall.endY };
+      const candidateDistance = distance(target, point);
+
+      if (candidateDistance <= tolerance && (!best || candidateDistance < best.distance)) {
+        best = {
+          anchor: { kind: 'wall', wallId: wall.id, endpoint },
+          distance: candidateDistance
+        };
+      }
+    }
+  }
+
+  if (best) {
+    return best.anchor;
+  }
+
+  return { kind: 'point', x, y };
+}
+
+/**
+ * Lay out an aligned dimension chain: every point is projected onto the line through the
+ * first and last point, then pushed out by `offset` past the furthest point.
+ */
+export function buildDimensionGeometry(points: Point[], offset: number): DimensionChainGeometry | null {
+  if (points.length < 2) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const baseLength = distance(first, last);
+  if (baseLength < 1e-6) return null;
+
+  const direction = { x: (last.x - first.x) / baseLength, y: (last.y - first.y) / baseLength };
+  const side = offset >= 0 ? 1 : -1;
+  const normal = { x: -direction.y * side, y: direction.x * side };
+
+  const along = points.map((point) => (point.x - first.x) * direction.x + (point.y - first.y) * direction.y);
+  const across = points.map((point) => (point.x - first.x) * normal.x + (point.y - first.y) * normal.y);
+  const linePosition = Math.max(...across) + Math.abs(offset);
+
+  const ticks = along.map((t) => ({
+    x: first.x + direction.x * t + normal.x * linePosition,
+    y: first.y + direction.y * t + normal.y * linePosition
+  }));
+
+  const extensions = points.map((point, index) => ({
+    from: point,
+    to: ticks[index]
+  }));
+
+  const segments: DimensionSegment[] = [];
+  for (let i = 0; i < ticks.length - 1; i++) {
+    segments.push(makeSegment(ticks[i], ticks[i + 1]));
+  }
+
+  return {
+    normal,
+    ticks,
+    extensions,
+    segments,
+    total: makeSegment(ticks[0], ticks[ticks.length - 1])
+  };
+}
+
+/**
+ * Angle of a wall in degrees, counter-clockwise from the positive x axis as shown on screen.
+ */
+export function displayAngle(start: Point, end: Point): number {
+  const angle = -angleBetweenPoints(start, end);
+  return ((angle % 360) + 360) % 360;
+}
+
+/**
+ * Keep label text upright by flipping angles that would render it upside down.
+ */
+export function readableTextAngle(angle: number): number {
+  let normalized = ((angle % 360) + 360) % 360;
+  if (normalized > 90 && normalized < 270) {
+    normalized -= 180;
+  }
+  return normalized;
+}
+
+export function distanceToDimension(
+  dimension: DimensionItem,
+  walls: WallItem[],
+  x: number,
+  y: number
+): number {
+  const points = resolveDimensionPoints(dimension, walls);
+  const geometry = points ? buildDimensionGeometry(points, dimension.offset) : null;
+  if (!geometry) return Infinity;
+
+  const { start, end } = geometry.total;
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = Math.max(0, Math.min(1, ((x - start.x) * dx + (y - start.y) * dy) / lengthSquared));
+
+  return distance({ x, y }, { x: start.x + t * dx, y: start.y + t * dy });
+}
+
+export function isPointNearDimension(
+  dimension: DimensionItem,
+  walls: WallItem[],
+  x: number,
+  y: number,
+  tolerance = DIMENSION_HIT_TOLERANCE
+): boolean {
+  return distanceToDimension(dimension, walls, x, y) <= tolerance;
+}
+
+export function translateDimension(dimension: DimensionItem, deltaX: number, deltaY: number): DimensionItem {
+  return {
+    ...dimension,
+    anchors: dimension.anchors.map((anchor) => (
+      anchor.kind === 'point'
+        ? { ...anchor, x: anchor.x + deltaX, y: anchor.y + deltaY }
+        : anchor
+    ))
+  };
+}
+
+/**
+ * Drop pinned dimensions whose wall anchors no longer exist.
+ */
+export function pruneDanglingDimensions(entities: PlacedEntity[]): PlacedEntity[] {
+  const wallIds = new Set(entities.filter((entity) => entity.type === 'wall').map((wall) => wall.id));
+
+  return entities.filter((entity) => {
+    if (entity.type !== 'dimension') return true;
+    return entity.anchors.every((anchor) => anchor.kind === 'point' || wallIds.has(anchor.wallId));
+  });
+}
@@ -0,0 +1,109 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BuiltInFlooringType,
+  DEFAULT_ROOM_FLOORING,
+  FlooringMaterial,
+  FlooringType,
+  RoomDefinition
+} from '@/app/plans/[planId]/types';
+
+export const BUILT_IN_FLOORINGS: BuiltInFlooringType[] = ['floor_tile', 'floor_wood', 'floor_stone', 'floor_carpet'];
+
+export const FLOORING_LABELS: Record<BuiltInFlooringType, string> = {
+  floor_tile: 'Tile',
+  floor_wood: 'Wood',
+  floor_stone: 'Stone',
+  floor_carpet: 'Carpet'
+};
+
+export const FLOORING_PATTERN_SOURCES: Record<BuiltInFlooringType, string> = {
+  floor_tile: '/icons/furniture/floor_tile.svg',
+  floor_wood: '/icons/furniture/floor_wood.svg',
+  floor_stone: '/icons/furniture/floor_stone.svg',
+  floor_carpet: '/icons/furniture/floor_carpet.svg'
+};
+
+export const DEFAULT_MATERIAL_TILE_SIZE = 1; // metres
+export const MAX_TEXTURE_BYTES = 5 * 1024 * 1024;
+export const TEXTURE_CONTENT_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/svg+xml'];
+
+export const MIN_FLOORING_SCALE = 0.1;
+export const MAX_FLOORING_SCALE = 10;
+
+export function isBuiltInFlooring(flooring: FlooringType): flooring is BuiltInFlooringType {
+  return (BUILT_IN_FLOORINGS as string[]).includes(flooring);
+}
+
+export function findFlooringMaterial(flooring: FlooringType, materials: FlooringMaterial[]): FlooringMaterial | undefined {
+  return isBuiltInFlooring(flooring) ? undefined : materials.find((material) => material.id === flooring);
+}
+
+export function getFlooringLabel(flooring: FlooringType, materials: FlooringMaterial[]): string {
+  if (isBuiltInFlooring(flooring)) return FLOORING_LABELS[flooring];
+  return findFlooringMaterial(flooring, materials)?.name ?? 'Missing material';
+}
+
+export function getFlooringSource(flooring: FlooringType, materials: FlooringMaterial[]): string | null {
+  if (isBuiltInFlooring(flooring)) return FLOORING_PATTERN_SOURCES[flooring];
+  return findFlooringMaterial(flooring, materials)?.url ?? null;
+}
+
+export function clampFlooringScale(scale: number): number {
+  return Math.min(MAX_FLOORING_SCALE, Math.max(MIN_FLOORING_SCALE, scale));
+}
+
+/**
+ * Why an uploaded file cannot be used as a flooring texture, or null when it can.
+ */
+export function validateTextureFile(file: { type: string; size: number }): string | null {
+  if (!TEXTURE_CONTENT_TYPES.includes(file.type)) {
+    return 'Textures must be PNG, JPEG, WebP or SVG images.';
+  }
+  if (file.size > MAX_TEXTURE_BYTES) {
+    return 'Textures must be smaller than 5 MB.';
+  }
+  return null;
+}
+
+export function createFlooringMaterial(fileName: string, url: string, id: FlooringMaterial['id'] = `material-${uuidv4()}`): FlooringMaterial {
+  const name = fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim();
+  return { id, name: name || 'Custom texture', url, tileSize: DEFAULT_MATERIAL_TILE_SIZE };
+}
+
+export const materialPath = (planId: string, materialId: FlooringMaterial['id'], extension: string) =>
+  `materials/${planId}/${materialId}.${extension}`;
+
+/**
+ * Storage path of an uploaded texture, recovered from its public URL since the extension is only kept there.
+ */
+export function materialStoragePath(planId: string, material: FlooringMaterial): string {
+  const extension = material.url.split('?')[0].split('.').pop() ?? 'png';
+  return materialPath(planId, material.id, extension);
+}
+
+function isFlooringMaterial(candidate: unknown): candidate is FlooringMaterial {
+  if (!candidate || typeof candidate !== 'object') return false;
+  const material = candidate as Partial<FlooringMaterial>;
+  return typeof material.id === 'string' &&
+    material.id.startsWith('material-') &&
+    typeof material.name === 'string' &&
+    typeof material.url === 'string';
+}
+
+export function normalizeFlooringMaterials(value: unknown): FlooringMaterial[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.filter(isFlooringMaterial).map((material) => ({
+    ...material,
+    tileSize: typeof material.tileSize === 'number' && material.tileSize > 0 ? material.tileSize : DEFAULT_MATERIAL_TILE_SIZE
+  }));
+}
+
+/**
+ * Rooms floored with a removed material go back to the default flooring.
+ */
+export function removeMaterialFromRooms(roomDefinitions: RoomDefinition[], materialId: string): RoomDefinition[] {
+  return roomDefinitions.map((room) => (
+    room.flooring === materialId ? { ...room, flooring: DEFAULT_ROOM_FLOORING } : room
+  ));
+}
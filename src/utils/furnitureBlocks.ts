@@ -0,0 +1,117 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BlockItem,
+  FurnitureBlock,
+  NOT_IN_ROOM_ID,
+  PlacedEntity,
+  PlacedItem,
+  PlanUnits,
+  isPlacedItem
+} from '@/app/plans/[planId]/types';
+import { sizeItemForUnits } from './furnitureDimensions';
+import { metersToPixels, pixelsToMeters } from './units';
+
+const BLOCK_FOLDER = 'blocks';
+
+/**
+ * Furniture that can join a group: wall-attached doors and windows and staircase arrivals belong
+ * to the plan around them rather than to a piece of furniture.
+ */
+export function isGroupableItem(entity: PlacedEntity): entity is PlacedItem {
+  return isPlacedItem(entity) && entity.type === 'furniture' && !entity.stairsFrom;
+}
+
+/**
+ * Save grouped items as a block. Positions and sizes are kept in metres so the block is inserted
+ * at the same real size into plans drawn at another scale.
+ */
+export function createFurnitureBlock(name: string, items: PlacedItem[], units: PlanUnits): FurnitureBlock {
+  const centerX = (Math.min(...items.map((item) => item.x)) + Math.max(...items.map((item) => item.x))) / 2;
+  const centerY = (Math.min(...items.map((item) => item.y)) + Math.max(...items.map((item) => item.y))) / 2;
+
+  return {
+    id: uuidv4(),
+    name: name.trim() || 'Furniture block',
+    items: items.map((item): BlockItem => ({
+      file: item.file,
+      type: item.type,
+      subtype: item.subtype,
+      name: item.name,
+      src: item.src,
+      width: item.width * item.scale,
+      height: item.height * item.scale,
+      inverted: item.inverted,
+      rotation: item.rotation,
+      scale: 1,
+      dimensions: {
+        width: pixelsToMeters(item.width * item.scale, units),
+        depth: pixelsToMeters(item.height * item.scale, units)
+      },
+      offset: {
+        x: pixelsToMeters(item.x - centerX, units),
+        y: pixelsToMeters(item.y - centerY, units)
+      }
+    }))
+  };
+}
+
+/**
+ * New placed items for a block centred on a stage point, grouped under the block's name.
+ */
+export function instantiateBlock(block: FurnitureBlock, center: { x: number; y: number }, units: PlanUnits): PlacedItem[] {
+  const group = { id: uuidv4(), name: block.name };
+
+  return block.items.map((item) => sizeItemForUnits<PlacedItem>({
+    id: uuidv4(),
+    file: item.file,
+    type: item.type,
+    subtype: item.subtype,
+    name: item.name,
+    src: item.src,
+    width: item.width,
+    height: item.height,
+    inverted: item.inverted,
+    rotation: item.rotation,
+    scale: 1,
+    dimensions: { ...item.dimensions },
+    x: center.x + metersToPixels(item.offset.x, units),
+    y: center.y + metersToPixels(item.offset.y, units),
+    roomId: NOT_IN_ROOM_ID,
+    group
+  }, units));
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function isBlockItem(candidate: unknown): candidate is BlockItem {
+  if (!candidate || typeof candidate !== 'object') return false;
+  const item = candidate as Partial<BlockItem>;
+  return typeof item.file === 'string' &&
+    typeof item.name === 'string' &&
+    (item.type === 'furniture' || item.type === 'foundational') &&
+    isFiniteNumber(item.width) &&
+    isFiniteNumber(item.height) &&
+    isFiniteNumber(item.rotation) &&
+    typeof item.inverted === 'boolean' &&
+    isFiniteNumber(item.dimensions?.width) &&
+    isFiniteNumber(item.dimensions?.depth) &&
+    isFiniteNumber(item.offset?.x) &&
+    isFiniteNumber(item.offset?.y);
+}
+
+function isFurnitureBlock(candidate: unknown): candidate is FurnitureBlock {
+  if (!candidate || typeof candidate !== 'object') return false;
+  const block = candidate as Partial<FurnitureBlock>;
+  return typeof block.id === 'string' &&
+    typeof block.name === 'string' &&
+    Array.isArray(block.items) &&
+    block.items.length > 0 &&
+    block.items.every(isBlockItem);
+}
+
+export function normalizeBlockLibrary(value: unknown): FurnitureBlock[] {
+  return Array.isArray(value) ? value.filter(isFurnitureBlock) : [];
+}
+
+// Stored next to the symbol library, so blocks are shared by all of the owner's plans
+export const blockLibraryPath = (ownerId: string) => `${BLOCK_FOLDER}/${ownerId}/library.json`;
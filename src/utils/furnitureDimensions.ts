@@ -0,0 +1,79 @@
+import {
+  DEFAULT_PIXELS_PER_METER,
+  Item,
+  PlacedEntity,
+  PlanUnits,
+  RealDimensions,
+  isPlacedItem
+} from '@/app/plans/[planId]/types';
+import { findCatalogEntry } from './catalog';
+import { metersToPixels } from './units';
+
+/**
+ * Resolve an item's physical footprint. Icons without a catalog entry fall back to their
+ * SVG size interpreted at the default drawing scale.
+ */
+export function getRealDimensions(
+  file: string,
+  fallbackPixelSize?: { width: number; height: number }
+): RealDimensions | undefined {
+  const known = findCatalogEntry(file)?.dimensions;
+  if (known) {
+    return { ...known };
+  }
+
+  if (!fallbackPixelSize) {
+    return undefined;
+  }
+
+  return {
+    width: fallbackPixelSize.width / DEFAULT_PIXELS_PER_METER,
+    depth: fallbackPixelSize.height / DEFAULT_PIXELS_PER_METER
+  };
+}
+
+export function sizeItemForUnits<T extends Item>(item: T, units: PlanUnits): T {
+  if (!item.dimensions) {
+    return item;
+  }
+
+  return {
+    ...item,
+    width: metersToPixels(item.dimensions.width, units),
+    height: metersToPixels(item.dimensions.depth, units)
+  };
+}
+
+/**
+ * Re-derive the pixel size of every dimensioned item after the plan scale changes so
+ * furniture keeps its physical size relative to the (unchanged) wall geometry.
+ */
+export function rescaleEntitiesForUnits(entities: PlacedEntity[], units: PlanUnits): PlacedEntity[] {
+  return entities.map((entity) => {
+    if (!isPlacedItem(entity) || !entity.dimensions) {
+      return entity;
+    }
+
+    return sizeItemForUnits(entity, units);
+  });
+}
+
+/**
+ * Fill in the physical size of items saved before plans tracked it, so later scale changes
+ * rescale them too. Icons outside the catalog keep their current size at the plan's scale.
+ */
+export function deriveMissingDimensions(entities: PlacedEntity[], units: PlanUnits): PlacedEntity[] {
+  return entities.map((entity) => {
+    if (!isPlacedItem(entity) || entity.dimensions) {
+      return entity;
+    }
+
+    const toDefaultScale = DEFAULT_PIXELS_PER_METER / units.pixelsPerMeter;
+    const dimensions = getRealDimensions(entity.file, {
+      width: entity.width * toDefaultScale,
+      height: entity.height * toDefaultScale
+    });
+
+    return dimensions ? { ...entity, dimensions } : entity;
+  });
+}
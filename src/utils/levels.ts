@@ -0,0 +1,183 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  FlooringMaterial,
+  NOT_IN_ROOM_ID,
+  PlacedEntity,
+  PlacedItem,
+  PlanLevel,
+  PlanSnapshot,
+  PlanUnits,
+  PriceTable,
+  RoomDefinition,
+  createInitialRoomDefinitions,
+  isPlacedItem
+} from '@/app/plans/[planId]/types';
+import { assignEntitiesToRooms } from './roomUtils';
+import { isInFurnitureGroup } from './roomTypes';
+
+// Plans saved before levels existed load as this single ground floor
+export const DEFAULT_LEVEL_ID = 'level-ground';
+
+const ORDINAL_NAMES = ['First', 'Second', 'Third', 'Fourth', 'Fifth'];
+
+export function levelNameForElevation(elevation: number): string {
+  if (elevation === 0) return 'Ground floor';
+  if (elevation === -1) return 'Basement';
+  if (elevation < 0) return `Basement ${-elevation}`;
+  return elevation <= ORDINAL_NAMES.length ? `${ORDINAL_NAMES[elevation - 1]} floor` : `Floor ${elevation}`;
+}
+
+export function createLevel(
+  elevation: number,
+  id: string = `level-${uuidv4()}`,
+  placedEntities: PlacedEntity[] = [],
+  roomDefinitions: RoomDefinition[] = createInitialRoomDefinitions()
+): PlanLevel {
+  return { id, name: levelNameForElevation(elevation), elevation, placedEntities, roomDefinitions };
+}
+
+export function sortLevels(levels: PlanLevel[]): PlanLevel[] {
+  return [...levels].sort((a, b) => a.elevation - b.elevation);
+}
+
+export function findLevelBelow(levels: PlanLevel[], levelId: string): PlanLevel | undefined {
+  const sorted = sortLevels(levels);
+  const index = sorted.findIndex((level) => level.id === levelId);
+  return index > 0 ? sorted[index - 1] : undefined;
+}
+
+function isLevel(candidate: unknown): candidate is PlanLevel {
+  if (!candidate || typeof candidate !== 'object') return false;
+  const level = candidate as Partial<PlanLevel>;
+  return typeof level.id === 'string' && typeof level.elevation === 'number';
+}
+
+/**
+ * Levels stored in a snapshot, or a single ground floor holding the snapshot's entities and rooms
+ * for plans saved before levels existed.
+ */
+export function normalizeLevels(snapshot: Partial<PlanSnapshot>): { levels: PlanLevel[]; activeLevelId: string } {
+  const storedLevels = Array.isArray(snapshot.levels) ? snapshot.levels.filter(isLevel) : [];
+  const levels = storedLevels.length > 0
+    ? storedLevels.map((level) => ({
+      ...level,
+      name: typeof level.name === 'string' && level.name ? level.name : levelNameForElevation(level.elevation),
+      placedEntities: Array.isArray(level.placedEntities) ? level.placedEntities : [],
+      roomDefinitions: Array.isArray(level.roomDefinitions) && level.roomDefinitions.length > 0
+        ? level.roomDefinitions
+        : createInitialRoomDefinitions()
+    }))
+    : [createLevel(
+      0,
+      DEFAULT_LEVEL_ID,
+      Array.isArray(snapshot.placedEntities) ? snapshot.placedEntities : [],
+      Array.isArray(snapshot.roomDefinitions) && snapshot.roomDefinitions.length > 0
+        ? snapshot.roomDefinitions
+        : createInitialRoomDefinitions()
+    )];
+
+  const active = levels.find((level) => level.id === snapshot.activeLevelId)
+    ?? levels.find((level) => level.elevation === 0)
+    ?? sortLevels(levels)[0];
+
+  return { levels: sortLevels(levels), activeLevelId: active.id };
+}
+
+/**
+ * Snapshot for a set of levels. The active level's entities and rooms are repeated at the top
+ * level so readers that predate levels still see the floor being edited.
+ */
+export function buildLevelSnapshot(
+  levels: PlanLevel[],
+  activeLevelId: string,
+  units: PlanUnits,
+  materials: FlooringMaterial[] = [],
+  prices?: PriceTable
+): PlanSnapshot {
+  const active = levels.find((level) => level.id === activeLevelId) ?? levels[0];
+
+  return {
+    placedEntities: active?.placedEntities ?? [],
+    roomDefinitions: active?.roomDefinitions ?? createInitialRoomDefinitions(),
+    units,
+    levels,
+    activeLevelId: active?.id ?? DEFAULT_LEVEL_ID,
+    materials,
+    prices
+  };
+}
+
+export function isStairs(item: Pick<PlacedItem, 'file'>): boolean {
+  return isInFurnitureGroup(item.file, 'stairs');
+}
+
+function sameFootprint(a: PlacedItem, b: PlacedItem): boolean {
+  return a.file === b.file &&
+    a.x === b.x &&
+    a.y === b.y &&
+    a.width === b.width &&
+    a.height === b.height &&
+    a.rotation === b.rotation &&
+    a.scale === b.scale &&
+    a.inverted === b.inverted;
+}
+
+/**
+ * Give every staircase an arrival on the level directly above with the same footprint. The
+ * staircase belongs to the level it rises from: arrivals follow it when it moves, are restored if
+ * edited or deleted on the upper level, and go away with it.
+ */
+export function linkStairs(levels: PlanLevel[]): PlanLevel[] {
+  const sorted = sortLevels(levels);
+
+  return sorted.map((level, index) => {
+    const below = sorted[index - 1];
+    const sources = below
+      ? below.placedEntities.filter(isPlacedItem).filter((item) => isStairs(item) && !item.stairsFrom)
+      : [];
+    const arrivals = level.placedEntities.filter(isPlacedItem).filter((item) => item.stairsFrom);
+
+    const nextArrivals = sources.map((source) => {
+      const existing = arrivals.find((arrival) => (
+        arrival.stairsFrom?.levelId === below.id && arrival.stairsFrom.itemId === source.id
+      ));
+      if (existing && sameFootprint(existing, source)) return existing;
+
+      return {
+        ...source,
+        id: existing?.id ?? uuidv4(),
+        roomId: existing?.roomId ?? NOT_IN_ROOM_ID,
+        stairsFrom: { levelId: below.id, itemId: source.id }
+      };
+    });
+
+    const unchanged = nextArrivals.length === arrivals.length &&
+      nextArrivals.every((arrival, arrivalIndex) => arrival === arrivals[arrivalIndex]);
+    if (unchanged) return level;
+
+    const others = level.placedEntities.filter((entity) => !isPlacedItem(entity) || !entity.stairsFrom);
+    return {
+      ...level,
+      placedEntities: assignEntitiesToRooms([...others, ...nextArrivals], level.roomDefinitions)
+    };
+  });
+}
+
+/**
+ * Levels without the removed one, with the storeys beyond it moved in to close the gap.
+ */
+export function removeLevel(levels: PlanLevel[], levelId: string): PlanLevel[] {
+  const removed = levels.find((level) => level.id === levelId);
+  if (!removed) return levels;
+
+  const step = removed.elevation >= 0 ? -1 : 1;
+  return levels
+    .filter((level) => level.id !== levelId)
+    .map((level) => {
+      const isBeyond = step < 0 ? level.elevation > removed.elevation : level.elevation < removed.elevation;
+      if (!isBeyond) return level;
+
+      const elevation = level.elevation + step;
+      return { ...level, elevation, name: levelNameForElevation(elevation) };
+    });
+}
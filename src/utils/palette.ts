@@ -0,0 +1,67 @@
+import { Item } from '@/app/plans/[planId]/types';
+import { CATALOG_CATEGORIES } from './catalog';
+
+// dataTransfer type carrying an item's file when it is dragged from the palette onto the canvas
+export const PALETTE_DRAG_TYPE = 'application/x-floorplan-item';
+
+export const MAX_RECENT_ITEMS = 8;
+
+export interface PalettePreferences {
+  recent: string[]; // most recent first
+  favorites: string[];
+}
+
+export const createPalettePreferences = (): PalettePreferences => ({ recent: [], favorites: [] });
+
+function categoryLabel(item: Item): string {
+  return CATALOG_CATEGORIES.find((category) => category.id === item.category)?.label ?? '';
+}
+
+/**
+ * Items whose name, tags or category contain every word of the query, best matches first: names
+ * starting with the query, then other name matches, then tag and category matches.
+ */
+export function searchItems(items: Item[], query: string): Item[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return items;
+
+  const rank = (item: Item) => {
+    const name = item.name.toLowerCase();
+    const haystack = [name, ...(item.tags ?? []), categoryLabel(item).toLowerCase()].join(' ');
+    if (!words.every((word) => haystack.includes(word))) return -1;
+    if (name.startsWith(words[0])) return 0;
+    return words.every((word) => name.includes(word)) ? 1 : 2;
+  };
+
+  return items
+    .map((item) => ({ item, rank: rank(item) }))
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ item }) => item);
+}
+
+export function pushRecentItem(recent: string[], file: string): string[] {
+  return [file, ...recent.filter((entry) => entry !== file)].slice(0, MAX_RECENT_ITEMS);
+}
+
+export function toggleFavoriteItem(favorites: string[], file: string): string[] {
+  return favorites.includes(file) ? favorites.filter((entry) => entry !== file) : [...favorites, file];
+}
+
+/**
+ * Items for a list of files in the list's order, skipping files no longer in the catalog.
+ */
+export function itemsForFiles(items: Item[], files: string[]): Item[] {
+  return files.flatMap((file) => items.filter((item) => item.file === file));
+}
+
+export function normalizePalettePreferences(value: unknown): PalettePreferences {
+  if (!value || typeof value !== 'object') return createPalettePreferences();
+  const candidate = value as Partial<PalettePreferences>;
+  const files = (list: unknown) => (Array.isArray(list) ? list.filter((file): file is string => typeof file === 'string') : []);
+
+  return {
+    recent: files(candidate.recent).slice(0, MAX_RECENT_ITEMS),
+    favorites: files(candidate.favorites)
+  };
+}
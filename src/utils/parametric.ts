@@ -0,0 +1,98 @@
+import { ParametricLimits, PlacedItem, PlanUnits } from '@/app/plans/[planId]/types';
+import { findCatalogEntry } from './catalog';
+import { sizeItemForUnits } from './furnitureDimensions';
+import { metersToPixels, pixelsToMeters } from './units';
+
+// Edges of an item's unrotated footprint: left/right change its width, top/bottom its depth
+export type ResizeHandle = 'left' | 'right' | 'top' | 'bottom';
+
+const HANDLE_DIRECTIONS: Record<ResizeHandle, { x: number; y: number }> = {
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  top: { x: 0, y: -1 },
+  bottom: { x: 0, y: 1 }
+};
+
+export function getParametricLimits(item: Pick<PlacedItem, 'file'>): ParametricLimits | undefined {
+  return findCatalogEntry(item.file)?.parametric;
+}
+
+export function isParametricItem(item: Pick<PlacedItem, 'file'>): boolean {
+  return getParametricLimits(item) !== undefined;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Stage positions of the handles in the middle of each edge of a parametric item's footprint.
+ */
+export function getResizeHandles(item: PlacedItem): { handle: ResizeHandle; x: number; y: number }[] {
+  if (!isParametricItem(item)) return [];
+
+  const halfWidth = (item.width * item.scale) / 2;
+  const halfHeight = (item.height * item.scale) / 2;
+  const angle = toRadians(item.rotation);
+
+  return (Object.keys(HANDLE_DIRECTIONS) as ResizeHandle[]).map((handle) => {
+    const localX = HANDLE_DIRECTIONS[handle].x * halfWidth;
+    const localY = HANDLE_DIRECTIONS[handle].y * halfHeight;
+    return {
+      handle,
+      x: item.x + localX * Math.cos(angle) - localY * Math.sin(angle),
+      y: item.y + localX * Math.sin(angle) + localY * Math.cos(angle)
+    };
+  });
+}
+
+export function findResizeHandle(item: PlacedItem, x: number, y: number, tolerance: number): ResizeHandle | null {
+  const hit = getResizeHandles(item).find((candidate) => Math.hypot(candidate.x - x, candidate.y - y) <= tolerance);
+  return hit?.handle ?? null;
+}
+
+/**
+ * Drag one edge of a parametric item to a stage point, keeping the opposite edge in place. The new
+ * size is clamped to the catalog limits and stored as real dimensions with the uniform scale folded in.
+ */
+export function resizeParametricItem(
+  item: PlacedItem,
+  handle: ResizeHandle,
+  x: number,
+  y: number,
+  units: PlanUnits
+): PlacedItem {
+  const limits = getParametricLimits(item);
+  if (!limits) return item;
+
+  const angle = toRadians(item.rotation);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const direction = HANDLE_DIRECTIONS[handle];
+  const isWidth = direction.x !== 0;
+  const sign = isWidth ? direction.x : direction.y;
+
+  const width = item.width * item.scale;
+  const height = item.height * item.scale;
+  const current = isWidth ? width : height;
+  const [minMeters, maxMeters] = isWidth ? limits.width : limits.depth;
+
+  // Distance from the fixed edge to the pointer, measured along the item's own axis
+  const localX = (x - item.x) * cos + (y - item.y) * sin;
+  const localY = -(x - item.x) * sin + (y - item.y) * cos;
+  const reach = sign * (isWidth ? localX : localY) + current / 2;
+  const next = Math.min(metersToPixels(maxMeters, units), Math.max(metersToPixels(minMeters, units), reach));
+
+  const shift = (sign * (next - current)) / 2;
+  const shiftX = isWidth ? shift : 0;
+  const shiftY = isWidth ? 0 : shift;
+
+  return sizeItemForUnits({
+    ...item,
+    x: item.x + shiftX * cos - shiftY * sin,
+    y: item.y + shiftX * sin + shiftY * cos,
+    scale: 1,
+    dimensions: {
+      width: pixelsToMeters(isWidth ? next : width, units),
+      depth: pixelsToMeters(isWidth ? height : next, units)
+    }
+  }, units);
+}
@@ -0,0 +1,166 @@
+import {
+  DEFAULT_ROOM_FLOORING,
+  NOT_IN_ROOM_ID,
+  PlacedEntity,
+  RoomDefinition,
+  RoomWallReference,
+  WallItem
+} from '@/app/plans/[planId]/types';
+import { v4 as uuidv4 } from 'uuid';
+import { computePolygonArea, generateRoomColor, generateRoomName } from './roomUtils';
+import { buildWallGraph, getWallEndNode } from './wallGraph';
+import { tessellateWall, wallDepartureAngle } from './wallArcs';
+
+// Faces smaller than this (in square pixels) are slivers from nearly overlapping walls
+const MIN_FACE_AREA = 1;
+
+export interface RoomProposal {
+  definition: RoomDefinition;
+  polygonPoints: number[];
+}
+
+interface HalfEdge {
+  wallId: string;
+  direction: 'forward' | 'reverse';
+  from: string;
+  to: string;
+  angle: number;
+}
+
+const halfEdgeKey = (edge: HalfEdge) => `${edge.wallId}:${edge.direction}`;
+
+/**
+ * Enumerate the bounded faces of the wall network. Outgoing half-edges are sorted by angle at
+ * every junction and each face is traced by turning onto the neighbouring edge, which walks the
+ * inner faces with positive signed area and the outer boundary with negative area.
+ */
+export function findEnclosedFaces(walls: WallItem[]): { walls: RoomWallReference[]; polygonPoints: number[] }[] {
+  const graph = buildWallGraph(walls);
+  const wallsById = new Map(walls.map((wall) => [wall.id, wall]));
+  const outgoing = new Map<string, HalfEdge[]>();
+
+  walls.forEach((wall) => {
+    const startNode = getWallEndNode(graph, wall.id, 'start');
+    const endNode = getWallEndNode(graph, wall.id, 'end');
+    if (!startNode || !endNode || startNode.id === endNode.id) return;
+
+    const forward: HalfEdge = {
+      wallId: wall.id,
+      direction: 'forward',
+      from: startNode.id,
+      to: endNode.id,
+      angle: wallDepartureAngle(wall, 'start')
+    };
+    const reverse: HalfEdge = {
+      wallId: wall.id,
+      direction: 'reverse',
+      from: endNode.id,
+      to: startNode.id,
+      angle: wallDepartureAngle(wall, 'end')
+    };
+
+    [forward, reverse].forEach((edge) => {
+      const edges = outgoing.get(edge.from) ?? [];
+      edges.push(edge);
+      outgoing.set(edge.from, edges);
+    });
+  });
+
+  outgoing.forEach((edges) => edges.sort((a, b) => a.angle - b.angle));
+
+  const nextEdge = (edge: HalfEdge): HalfEdge | undefined => {
+    const edges = outgoing.get(edge.to);
+    if (!edges) return undefined;
+    const twinIndex = edges.findIndex((candidate) =>
+      candidate.wallId === edge.wallId && candidate.direction !== edge.direction
+    );
+    if (twinIndex === -1) return undefined;
+    return edges[(twinIndex - 1 + edges.length) % edges.length];
+  };
+
+  const visited = new Set<string>();
+  const faces: { walls: RoomWallReference[]; polygonPoints: number[] }[] = [];
+
+  outgoing.forEach((edges) => {
+    edges.forEach((startEdge) => {
+      if (visited.has(halfEdgeKey(startEdge))) return;
+
+      const cycle: HalfEdge[] = [];
+      let current: HalfEdge | undefined = startEdge;
+      while (current && !visited.has(halfEdgeKey(current))) {
+        visited.add(halfEdgeKey(current));
+        cycle.push(current);
+        current = nextEdge(current);
+      }
+
+      if (!current || halfEdgeKey(current) !== halfEdgeKey(startEdge)) return;
+
+      // Walls walked in both directions are spurs poking into the face, not part of its outline
+      const wallVisits = new Map<string, number>();
+      cycle.forEach((edge) => wallVisits.set(edge.wallId, (wallVisits.get(edge.wallId) ?? 0) + 1));
+      const boundary = cycle.filter((edge) => wallVisits.get(edge.wallId) === 1);
+      if (boundary.length < 3) return;
+
+      const polygonPoints = boundary.flatMap((edge) => {
+        const node = graph.nodesById.get(edge.from);
+        const wall = wallsById.get(edge.wallId);
+        if (!node || !wall) return [];
+
+        // Curved walls contribute their tessellated interior points
+        const arcPoints = tessellateWall(wall).slice(1, -1);
+        const interior = edge.direction === 'reverse' ? arcPoints.reverse() : arcPoints;
+        return [node.x, node.y, ...interior.flatMap((point) => [point.x, point.y])];
+      });
+
+      let signedArea = 0;
+      for (let i = 0; i < polygonPoints.length; i += 2) {
+        const nextIndex = (i + 2) % polygonPoints.length;
+        signedArea += polygonPoints[i] * polygonPoints[nextIndex + 1] - polygonPoints[nextIndex] * polygonPoints[i + 1];
+      }
+      if (signedArea / 2 < MIN_FACE_AREA) return;
+
+      faces.push({
+        walls: boundary.map((edge) => ({ wallId: edge.wallId, direction: edge.direction })),
+        polygonPoints
+      });
+    });
+  });
+
+  return faces;
+}
+
+function wallSetKey(references: RoomWallReference[]): string {
+  return references.map(({ wallId }) => wallId).sort().join('|');
+}
+
+/**
+ * Propose a room for every enclosed face that is not already covered by an existing room.
+ */
+export function detectRoomProposals(
+  entities: PlacedEntity[],
+  roomDefinitions: RoomDefinition[]
+): RoomProposal[] {
+  const walls = entities.filter((entity): entity is WallItem => entity.type === 'wall');
+  const existingKeys = new Set(roomDefinitions.map((room) => wallSetKey(room.walls)));
+  const namedRooms = roomDefinitions.filter((room) => room.id !== NOT_IN_ROOM_ID);
+  const proposals: RoomProposal[] = [];
+
+  findEnclosedFaces(walls)
+    .filter((face) => !existingKeys.has(wallSetKey(face.walls)))
+    .sort((a, b) => computePolygonArea(b.polygonPoints) - computePolygonArea(a.polygonPoints))
+    .forEach((face) => {
+      const claimed = [...namedRooms, ...proposals.map((proposal) => proposal.definition)];
+      proposals.push({
+        definition: {
+          id: `room-${uuidv4()}`,
+          name: generateRoomName(claimed),
+          walls: face.walls,
+          flooring: DEFAULT_ROOM_FLOORING,
+          color: generateRoomColor([...roomDefinitions, ...proposals.map((proposal) => proposal.definition)])
+        },
+        polygonPoints: face.polygonPoints
+      });
+    });
+
+  return proposals;
+}
@@ -0,0 +1,324 @@
+import {
+  NOT_IN_ROOM_ID,
+  PlacedEntity,
+  RoomDefinition,
+  RoomWallReference,
+  WallItem,
+  isPlacedItem
+} from '@/app/plans/[planId]/types';
+import { Point } from '@/app/lib/types';
+import { distance, intersectSegments } from '@/app/lib/geometry';
+import { v4 as uuidv4 } from 'uuid';
+import { buildWallGraph, findWallNodeNear, getWallEndNode, splitWall } from './wallGraph';
+import { distanceToWall, projectOntoWall, tessellateWall } from './wallArcs';
+import { computeRooms, generateRoomColor, generateRoomName, isPointInsideRoom } from './roomUtils';
+import { pruneDanglingDimensions } from './dimensions';
+
+export type RoomOperation = 'split' | 'merge';
+
+export type RoomOperationResult =
+  | { ok: true; entities: PlacedEntity[]; roomDefinitions: RoomDefinition[] }
+  | { ok: false; error: string };
+
+// Cuts shorter than this (in pixels) would only produce a sliver wall
+const MIN_CUT_LENGTH = 1;
+
+const flipReference = (reference: RoomWallReference): RoomWallReference => ({
+  wallId: reference.wallId,
+  direction: (reference.direction ?? 'forward') === 'forward' ? 'reverse' : 'forward'
+});
+
+function findWall(entities: PlacedEntity[], wallId: string): WallItem | undefined {
+  return entities.find((entity): entity is WallItem => entity.type === 'wall' && entity.id === wallId);
+}
+
+function crossesOutline(from: Point, to: Point, outline: number[]): boolean {
+  for (let i = 0; i < outline.length; i += 2) {
+    const next = (i + 2) % outline.length;
+    const start = { x: outline[i], y: outline[i + 1] };
+    const end = { x: outline[next], y: outline[next + 1] };
+    if (intersectSegments(from, to, start, end)) return true;
+  }
+  return false;
+}
+
+/**
+ * Points where a cut line crosses the room's boundary walls, ordered along the cut. The cut is
+ * lengthened by `tolerance` at both ends so lines drawn up to a wall still reach its centreline.
+ */
+function findBoundaryCrossings(
+  entities: PlacedEntity[],
+  room: RoomDefinition,
+  from: Point,
+  to: Point,
+  tolerance: number
+): Point[] {
+  const length = distance(from, to);
+  const direction = { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+  const start = { x: from.x - direction.x * tolerance, y: from.y - direction.y * tolerance };
+  const end = { x: to.x + direction.x * tolerance, y: to.y + direction.y * tolerance };
+  const crossings: Point[] = [];
+
+  room.walls.forEach(({ wallId }) => {
+    const wall = findWall(entities, wallId);
+    if (!wall) return;
+
+    const outline = tessellateWall(wall);
+    outline.slice(1).forEach((point, index) => {
+      const crossing = intersectSegments(start, end, outline[index], point);
+      // Crossings through a corner are found on both walls meeting there
+      if (crossing && !crossings.some((existing) => distance(existing, crossing) < MIN_CUT_LENGTH)) {
+        crossings.push(crossing);
+      }
+    });
+  });
+
+  return crossings.sort((a, b) => distance(start, a) - distance(start, b));
+}
+
+/**
+ * Make sure a wall node of the room sits at `point`, splitting the boundary wall under it unless
+ * a corner is already within `tolerance`. Returns the node position actually used.
+ */
+function ensureBoundaryNode(
+  entities: PlacedEntity[],
+  roomDefinitions: RoomDefinition[],
+  room: RoomDefinition,
+  point: Point,
+  tolerance: number
+): { entities: PlacedEntity[]; roomDefinitions: RoomDefinition[]; point: Point } {
+  const walls = entities.filter((entity): entity is WallItem => entity.type === 'wall');
+  const node = findWallNodeNear(buildWallGraph(walls), point.x, point.y, Math.max(tolerance, MIN_CUT_LENGTH));
+  if (node) {
+    return { entities, roomDefinitions, point: { x: node.x, y: node.y } };
+  }
+
+  const currentRoom = roomDefinitions.find((candidate) => candidate.id === room.id) ?? room;
+  const host = currentRoom.walls
+    .map(({ wallId }) => findWall(entities, wallId))
+    .filter((wall): wall is WallItem => Boolean(wall))
+    .sort((a, b) => distanceToWall(a, point) - distanceToWall(b, point))[0];
+  if (!host) {
+    return { entities, roomDefinitions, point };
+  }
+
+  const cut = projectOntoWall(host, point).point;
+  return { ...splitWall(entities, roomDefinitions, host.id, cut), point: cut };
+}
+
+/**
+ * Split the room's wall cycle at two of its nodes into the path from `first` to `second` and the
+ * path back. Returns null when the references do not form a single ordered loop through both.
+ */
+function splitWallCycle(
+  walls: WallItem[],
+  references: RoomWallReference[],
+  first: string,
+  second: string
+): [RoomWallReference[], RoomWallReference[]] | null {
+  const graph = buildWallGraph(walls);
+  const ends = references.map((reference) => {
+    const forward = (reference.direction ?? 'forward') === 'forward';
+    return {
+      reference,
+      from: getWallEndNode(graph, reference.wallId, forward ? 'start' : 'end')?.id,
+      to: getWallEndNode(graph, reference.wallId, forward ? 'end' : 'start')?.id
+    };
+  });
+
+  const startIndex = ends.findIndex((end) => end.from === first);
+  if (startIndex === -1) return null;
+
+  const ordered = [...ends.slice(startIndex), ...ends.slice(0, startIndex)];
+  const connected = ordered.every((end, index) => end.to === ordered[(index + 1) % ordered.length].from);
+  const splitIndex = ordered.findIndex((end) => end.to === second);
+  if (!connected || splitIndex === -1) return null;
+
+  return [
+    ordered.slice(0, splitIndex + 1).map((end) => end.reference),
+    ordered.slice(splitIndex + 1).map((end) => end.reference)
+  ];
+}
+
+/**
+ * Divide a room in two along a cut line drawn across it. A new wall (or separator, depending on
+ * `cut`) is inserted between the two points where the cut crosses the room's boundary, splitting
+ * the boundary walls there. The larger half keeps the room's id and name; the other half becomes a
+ * new room with the same flooring.
+ */
+export function splitRoomAlongLine(
+  entities: PlacedEntity[],
+  roomDefinitions: RoomDefinition[],
+  roomId: string,
+  from: Point,
+  to: Point,
+  cut: Pick<WallItem, 'thickness' | 'separator'>,
+  tolerance: number = 0
+): RoomOperationResult {
+  const room = roomDefinitions.find((candidate) => candidate.id === roomId);
+  if (!room || room.id === NOT_IN_ROOM_ID) return { ok: false, error: 'Select a room to split.' };
+  if (distance(from, to) < MIN_CUT_LENGTH) return { ok: false, error: 'Draw a longer cut line.' };
+
+  const computed = computeRooms(roomDefinitions, entities).find((candidate) => candidate.id === room.id);
+  const crossings = findBoundaryCrossings(entities, room, from, to, tolerance);
+  if (crossings.length !== 2) {
+    return { ok: false, error: 'Draw the cut from one wall of the room to another, crossing it only once.' };
+  }
+
+  if (computed?.holes.some((hole) => crossesOutline(crossings[0], crossings[1], hole))) {
+    return { ok: false, error: 'The cut line cannot pass through a room nested inside this one.' };
+  }
+  const middle = { x: (crossings[0].x + crossings[1].x) / 2, y: (crossings[0].y + crossings[1].y) / 2 };
+  if (!computed || !isPointInsideRoom(computed, middle.x, middle.y)) {
+    return { ok: false, error: 'The cut line must run through the inside of the room.' };
+  }
+
+  let next = { entities, roomDefinitions };
+  const cutPoints = crossings.map((crossing) => {
+    const { point, ...result } = ensureBoundaryNode(next.entities, next.roomDefinitions, room, crossing, tolerance);
+    next = result;
+    return point;
+  });
+  if (distance(cutPoints[0], cutPoints[1]) < MIN_CUT_LENGTH) {
+    return { ok: false, error: 'Draw a longer cut line.' };
+  }
+
+  const cutWall: WallItem = {
+    id: uuidv4(),
+    type: 'wall',
+    startX: cutPoints[0].x,
+    startY: cutPoints[0].y,
+    endX: cutPoints[1].x,
+    endY: cutPoints[1].y,
+    thickness: cut.separator ? 0 : cut.thickness,
+    ...(cut.separator && { separator: true })
+  };
+  const nextEntities = [...next.entities, cutWall];
+  const walls = nextEntities.filter((entity): entity is WallItem => entity.type === 'wall');
+  const graph = buildWallGraph(walls);
+  const startNode = getWallEndNode(graph, cutWall.id, 'start');
+  const endNode = getWallEndNode(graph, cutWall.id, 'end');
+  const splitRoom = next.roomDefinitions.find((candidate) => candidate.id === room.id) ?? room;
+  const paths = startNode && endNode
+    ? splitWallCycle(walls, splitRoom.walls, startNode.id, endNode.id)
+    : null;
+  if (!paths || paths[0].length === 0 || paths[1].length === 0) {
+    return { ok: false, error: 'The outline of this room cannot be split.' };
+  }
+
+  // The first path runs start -> end of the cut wall, so the cut closes it in reverse
+  const halves = [
+    [...paths[0], { wallId: cutWall.id, direction: 'reverse' as const }],
+    [...paths[1], { wallId: cutWall.id, direction: 'forward' as const }]
+  ];
+  const areas = halves.map((halfWalls) => computeRooms([{ ...splitRoom, walls: halfWalls }], nextEntities)[0]?.area ?? 0);
+  const [keptWalls, newWalls] = areas[0] >= areas[1] ? halves : [halves[1], halves[0]];
+
+  const namedRooms = next.roomDefinitions.filter((candidate) => candidate.id !== NOT_IN_ROOM_ID);
+  const newRoom: RoomDefinition = {
+    id: `room-${uuidv4()}`,
+    name: generateRoomName(namedRooms),
+    walls: newWalls,
+    flooring: splitRoom.flooring,
+    roomType: splitRoom.roomType,
+    // Typed rooms share their type's colour, untyped rooms get a fresh one
+    color: splitRoom.roomType ? splitRoom.color : generateRoomColor(next.roomDefinitions)
+  };
+
+  return {
+    ok: true,
+    entities: nextEntities,
+    roomDefinitions: next.roomDefinitions.flatMap((candidate) => (
+      candidate.id === room.id ? [{ ...candidate, walls: keptWalls }, newRoom] : [candidate]
+    ))
+  };
+}
+
+/**
+ * Chain wall references into one loop, each starting where the previous one ends. Returns null
+ * when they do not close into exactly one cycle.
+ */
+function chainWallCycle(walls: WallItem[], references: RoomWallReference[]): RoomWallReference[] | null {
+  const graph = buildWallGraph(walls);
+  const remaining = references.map((reference) => {
+    const forward = (reference.direction ?? 'forward') === 'forward';
+    return {
+      reference,
+      from: getWallEndNode(graph, reference.wallId, forward ? 'start' : 'end')?.id,
+      to: getWallEndNode(graph, reference.wallId, forward ? 'end' : 'start')?.id
+    };
+  });
+  if (remaining.length === 0) return null;
+
+  const [first, ...rest] = remaining;
+  const cycle = [first];
+  let pending = rest;
+  while (pending.length > 0) {
+    const previous = cycle[cycle.length - 1];
+    const next = pending.find((end) => end.from === previous.to);
+    if (!next) return null;
+    cycle.push(next);
+    pending = pending.filter((end) => end !== next);
+  }
+
+  return cycle[cycle.length - 1].to === first.from ? cycle.map((end) => end.reference) : null;
+}
+
+/**
+ * Merge two rooms that share walls into the first one. The shared walls are deleted, or kept as
+ * open separators inside the merged room when `removeSharedWalls` is off. Doors and windows in the
+ * shared walls go with them; other items are left alone and reassigning entities afterwards moves
+ * the second room's items over.
+ */
+export function mergeRooms(
+  entities: PlacedEntity[],
+  roomDefinitions: RoomDefinition[],
+  firstId: string,
+  secondId: string,
+  removeSharedWalls: boolean = true
+): RoomOperationResult {
+  const first = roomDefinitions.find((room) => room.id === firstId);
+  const second = roomDefinitions.find((room) => room.id === secondId);
+  if (!first || !second || first.id === second.id || second.id === NOT_IN_ROOM_ID) {
+    return { ok: false, error: 'Pick another room to merge with.' };
+  }
+
+  const secondWallIds = new Set(second.walls.map((reference) => reference.wallId));
+  const shared = first.walls.filter((reference) => secondWallIds.has(reference.wallId));
+  if (shared.length === 0) {
+    return { ok: false, error: 'Only rooms that share a wall can be merged.' };
+  }
+
+  // Rooms winding the same way walk their shared walls in opposite directions
+  const sharedInSecond = second.walls.find((reference) => reference.wallId === shared[0].wallId);
+  const sameWinding = (sharedInSecond?.direction ?? 'forward') !== (shared[0].direction ?? 'forward');
+  const sharedIds = new Set(shared.map((reference) => reference.wallId));
+  const secondReferences = (sameWinding ? second.walls : [...second.walls].reverse().map(flipReference))
+    .filter((reference) => !sharedIds.has(reference.wallId));
+  const firstReferences = first.walls.filter((reference) => !sharedIds.has(reference.wallId));
+
+  const walls = entities.filter((entity): entity is WallItem => entity.type === 'wall');
+  const merged = chainWallCycle(walls, [...firstReferences, ...secondReferences]);
+  if (!merged) {
+    return { ok: false, error: 'The rooms must share one continuous run of walls.' };
+  }
+
+  const remainingEntities = entities.filter((entity) => (
+    !isPlacedItem(entity) || !entity.attachedToWallId || !sharedIds.has(entity.attachedToWallId)
+  ));
+  const nextEntities = removeSharedWalls
+    ? pruneDanglingDimensions(remainingEntities.filter((entity) => !sharedIds.has(entity.id)))
+    : remainingEntities.map((entity) => (
+      entity.type === 'wall' && sharedIds.has(entity.id) ? { ...entity, thickness: 0, separator: true } : entity
+    ));
+
+  return {
+    ok: true,
+    entities: nextEntities,
+    roomDefinitions: roomDefinitions.flatMap((room) => {
+      if (room.id === second.id) return [];
+      if (room.id === first.id) return [{ ...room, walls: merged }];
+      return [room];
+    })
+  };
+}
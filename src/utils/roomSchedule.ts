@@ -0,0 +1,124 @@
+import { ComputedRoom, FlooringMaterial, FlooringType, NOT_IN_ROOM_ID, PlanUnits } from '@/app/plans/[planId]/types';
+import { BUILT_IN_FLOORINGS, getFlooringLabel, isBuiltInFlooring } from './flooring';
+import { METERS_PER_FOOT, metersToDisplayUnits, pixelsToMeters, squarePixelsToSquareMeters } from './units';
+
+export interface RoomScheduleRow {
+  roomId: string;
+  name: string;
+  flooring: FlooringType;
+  flooringLabel: string;
+  area: number; // square metres
+  usableArea: number; // square metres
+  perimeter: number; // metres
+}
+
+export interface RoomScheduleTotal {
+  flooring: FlooringType;
+  flooringLabel: string;
+  roomCount: number;
+  area: number;
+  usableArea: number;
+}
+
+export interface RoomSchedule {
+  rows: RoomScheduleRow[];
+  totals: RoomScheduleTotal[];
+  area: number;
+  usableArea: number;
+}
+
+// Built-in floorings in their usual order, then library materials
+function flooringOrder(flooring: FlooringType): number {
+  return isBuiltInFlooring(flooring) ? BUILT_IN_FLOORINGS.indexOf(flooring) : BUILT_IN_FLOORINGS.length;
+}
+
+/**
+ * Schedule of every named room with a closed outline, sorted by name, plus totals per flooring.
+ */
+export function buildRoomSchedule(
+  rooms: ComputedRoom[],
+  units: PlanUnits,
+  materials: FlooringMaterial[] = []
+): RoomSchedule {
+  const rows = rooms
+    .filter((room) => room.id !== NOT_IN_ROOM_ID && room.polygonPoints.length >= 6)
+    .map((room): RoomScheduleRow => ({
+      roomId: room.id,
+      name: room.name,
+      flooring: room.flooring,
+      flooringLabel: getFlooringLabel(room.flooring, materials),
+      area: squarePixelsToSquareMeters(room.area, units),
+      usableArea: squarePixelsToSquareMeters(room.usableArea, units),
+      perimeter: pixelsToMeters(room.perimeter, units)
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const totalsByFlooring = new Map<FlooringType, RoomScheduleTotal>();
+  rows.forEach((row) => {
+    const total = totalsByFlooring.get(row.flooring) ?? {
+      flooring: row.flooring,
+      flooringLabel: row.flooringLabel,
+      roomCount: 0,
+      area: 0,
+      usableArea: 0
+    };
+    total.roomCount += 1;
+    total.area += row.area;
+    total.usableArea += row.usableArea;
+    totalsByFlooring.set(row.flooring, total);
+  });
+
+  const totals = Array.from(totalsByFlooring.values()).sort((a, b) => (
+    flooringOrder(a.flooring) - flooringOrder(b.flooring) || a.flooringLabel.localeCompare(b.flooringLabel)
+  ));
+
+  return {
+    rows,
+    totals,
+    area: rows.reduce((sum, row) => sum + row.area, 0),
+    usableArea: rows.reduce((sum, row) => sum + row.usableArea, 0)
+  };
+}
+
+/**
+ * Quote a CSV field when needed. Text that a spreadsheet would read as a formula (room names are
+ * user input) gets a leading apostrophe; plain numbers, negative ones included, are left alone.
+ */
+export function escapeCsvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * CSV export of a room schedule in the plan's unit system, with the per-flooring totals appended.
+ */
+export function buildRoomScheduleCsv(schedule: RoomSchedule, units: PlanUnits): string {
+  const imperial = units.system === 'imperial';
+  const areaUnit = imperial ? 'ft²' : 'm²';
+  const lengthUnit = imperial ? 'ft' : 'm';
+  const area = (squareMeters: number) =>
+    (imperial ? squareMeters / (METERS_PER_FOOT * METERS_PER_FOOT) : squareMeters).toFixed(2);
+  const length = (meters: number) => metersToDisplayUnits(meters, units.system).toFixed(2);
+
+  const lines = [
+    ['Room', 'Flooring', `Area (${areaUnit})`, `Usable area (${areaUnit})`, `Perimeter (${lengthUnit})`],
+    ...schedule.rows.map((row) => [
+      row.name,
+      row.flooringLabel,
+      area(row.area),
+      area(row.usableArea),
+      length(row.perimeter)
+    ]),
+    [],
+    ['Flooring', 'Rooms', `Area (${areaUnit})`, `Usable area (${areaUnit})`],
+    ...schedule.totals.map((total) => [
+      total.flooringLabel,
+      String(total.roomCount),
+      area(total.area),
+      area(total.usableArea)
+    ]),
+    ['Total', String(schedule.rows.length), area(schedule.area), area(schedule.usableArea)]
+  ];
+
+  return lines.map((fields) => fields.map(escapeCsvField).join(',')).join('\n');
+}
@@ -0,0 +1,198 @@
+import {
+  ComputedRoom,
+  FlooringType,
+  Item,
+  NOT_IN_ROOM_ID,
+  PlacedEntity,
+  PlanUnits,
+  RoomDefinition,
+  RoomType,
+  isPlacedItem
+} from '@/app/plans/[planId]/types';
+import { generateRoomName } from './roomUtils';
+import { formatSquareMeters, squarePixelsToSquareMeters } from './units';
+
+interface RoomRequirement {
+  label: string;
+  furniture: string[]; // any of these furniture groups satisfies the requirement
+}
+
+export interface RoomTypePreset {
+  label: string;
+  flooring: FlooringType;
+  color: string;
+  suggestedFurniture: string[];
+  requirements: RoomRequirement[];
+  minimumArea?: number; // square metres
+}
+
+export const ROOM_TYPES: RoomType[] = [
+  'bedroom',
+  'bathroom',
+  'kitchen',
+  'living',
+  'circulation',
+  'utility',
+  'garage',
+  'outdoor'
+];
+
+export const ROOM_TYPE_PRESETS: Record<RoomType, RoomTypePreset> = {
+  bedroom: {
+    label: 'Bedroom',
+    flooring: 'floor_carpet',
+    color: '#c7d2fe',
+    suggestedFurniture: ['bed', 'nightstand', 'wardrobe', 'dresser', 'office_desk', 'chair_ergonomic'],
+    requirements: [{ label: 'a bed', furniture: ['bed'] }],
+    minimumArea: 7
+  },
+  bathroom: {
+    label: 'Bathroom',
+    flooring: 'floor_tile',
+    color: '#a5f3fc',
+    suggestedFurniture: ['toilet', 'bathroom_sink', 'shower', 'bath', 'cabinet_hanging'],
+    requirements: [
+      { label: 'a toilet', furniture: ['toilet'] },
+      { label: 'a sink', furniture: ['bathroom_sink'] },
+      { label: 'a bath or shower', furniture: ['bath', 'shower'] }
+    ]
+  },
+  kitchen: {
+    label: 'Kitchen',
+    flooring: 'floor_tile',
+    color: '#fde68a',
+    suggestedFurniture: ['stove', 'fridge', 'kitchen_sink', 'dish_washer', 'cabinet', 'dining_table', 'chair_dining', 'chair_stool'],
+    requirements: [
+      { label: 'a stove', furniture: ['stove'] },
+      { label: 'a sink', furniture: ['kitchen_sink'] },
+      { label: 'a fridge', furniture: ['fridge'] }
+    ]
+  },
+  living: {
+    label: 'Living room',
+    flooring: 'floor_wood',
+    color: '#bbf7d0',
+    suggestedFurniture: ['sofa', 'lounge', 'ottoman', 'table_coffee', 'table_large_coffee', 'tv_stand', 'bookshelf', 'speaker'],
+    requirements: []
+  },
+  circulation: {
+    label: 'Hallway',
+    flooring: 'floor_wood',
+    color: '#e2e8f0',
+    suggestedFurniture: ['stairs', 'storage', 'cabinet'],
+    requirements: []
+  },
+  utility: {
+    label: 'Utility room',
+    flooring: 'floor_tile',
+    color: '#ddd6fe',
+    suggestedFurniture: ['laundry_washing', 'laundry_ironboard', 'storage', 'cabinet'],
+    requirements: []
+  },
+  garage: {
+    label: 'Garage',
+    flooring: 'floor_stone',
+    color: '#d6d3d1',
+    suggestedFurniture: ['storage', 'cabinet', 'bookshelf'],
+    requirements: []
+  },
+  outdoor: {
+    label: 'Outdoor',
+    flooring: 'floor_stone',
+    color: '#d9f99d',
+    suggestedFurniture: ['lounge', 'table_wide', 'chair_dining', 'dining_table'],
+    requirements: []
+  }
+};
+
+/**
+ * Whether a catalog file belongs to a furniture group, e.g. `sofa_3_loft` is in the `sofa` group.
+ */
+export function isInFurnitureGroup(file: string, group: string): boolean {
+  return file === group || file.startsWith(`${group}_`);
+}
+
+/**
+ * Furniture from the catalog that suits a room type, in the preset's order. Items that list their
+ * room types in the catalog manifest are matched on those, others by furniture group.
+ */
+export function getSuggestedFurniture(roomType: RoomType | undefined, items: Item[]): Item[] {
+  if (!roomType) return [];
+
+  const groups = ROOM_TYPE_PRESETS[roomType].suggestedFurniture;
+  const groupIndex = (item: Item) => {
+    const index = groups.findIndex((group) => isInFurnitureGroup(item.file, group));
+    return index < 0 ? groups.length : index;
+  };
+
+  return items
+    .filter((item) => item.type === 'furniture')
+    .filter((item) => (item.roomTypes ? item.roomTypes.includes(roomType) : groupIndex(item) < groups.length))
+    .sort((a, b) => groupIndex(a) - groupIndex(b));
+}
+
+const GENERATED_NAME_PATTERN = new RegExp(
+  `^(Room|${ROOM_TYPES.map((type) => ROOM_TYPE_PRESETS[type].label).join('|')}) \\d+$`
+);
+
+/**
+ * Give a room a type, resetting its flooring and colour to the type's defaults. Rooms that still
+ * carry a generated name are renamed after the type.
+ */
+export function applyRoomType(
+  room: RoomDefinition,
+  roomType: RoomType | undefined,
+  roomDefinitions: RoomDefinition[]
+): RoomDefinition {
+  if (!roomType) {
+    return { ...room, roomType: undefined };
+  }
+
+  const preset = ROOM_TYPE_PRESETS[roomType];
+  const sameType = roomDefinitions.filter((other) => other.id !== room.id && other.roomType === roomType);
+
+  return {
+    ...room,
+    roomType,
+    flooring: preset.flooring,
+    color: preset.color,
+    name: GENERATED_NAME_PATTERN.test(room.name) ? generateRoomName(sameType, preset.label) : room.name
+  };
+}
+
+/**
+ * Problems with a room against the rules of its type: missing fixtures and undersized rooms.
+ */
+export function validateRoomType(room: ComputedRoom, entities: PlacedEntity[], units: PlanUnits): string[] {
+  if (!room.roomType) return [];
+
+  const preset = ROOM_TYPE_PRESETS[room.roomType];
+  const files = entities
+    .filter(isPlacedItem)
+    .filter((item) => item.roomId === room.id)
+    .map((item) => item.file);
+
+  const issues = preset.requirements
+    .filter((requirement) => !files.some((file) => requirement.furniture.some((group) => isInFurnitureGroup(file, group))))
+    .map((requirement) => `Needs ${requirement.label}.`);
+
+  if (preset.minimumArea && squarePixelsToSquareMeters(room.area, units) < preset.minimumArea) {
+    issues.push(`Smaller than the ${formatSquareMeters(preset.minimumArea, units.system)} minimum.`);
+  }
+
+  return issues;
+}
+
+export function validateRoomTypes(rooms: ComputedRoom[], entities: PlacedEntity[], units: PlanUnits): Map<string, string[]> {
+  const issuesByRoom = new Map<string, string[]>();
+
+  rooms.forEach((room) => {
+    if (room.id === NOT_IN_ROOM_ID) return;
+    const issues = validateRoomType(room, entities, units);
+    if (issues.length > 0) {
+      issuesByRoom.set(room.id, issues);
+    }
+  });
+
+  return issuesByRoom;
+}
@@ -2,51 +2,50 @@ import {
   ComputedRoom,
   NOT_IN_ROOM_ID,
   PlacedEntity,
-  PlacedItem,
   RoomBoundarySegment,
   RoomDefinition,
-  WallItem
+  WallItem,
+  isPlacedItem
 } from '@/app/plans/[planId]/types';
 import { findAttachedWallId } from './wallAttachment';
+import { WallGraph, WallNode, buildWallGraph, getWallEndNode } from './wallGraph';
+import { isArcWall, tessellateWall } from './wallArcs';
 
 interface PolygonCache {
   id: string;
   points: number[];
 }
 
-const POINT_TOLERANCE = 0.5;
-
-function pointsRoughlyEqual(a: { x: number; y: number } | null, b: { x: number; y: number } | null): boolean {
-  if (!a || !b) return false;
-  return Math.abs(a.x - b.x) <= POINT_TOLERANCE && Math.abs(a.y - b.y) <= POINT_TOLERANCE;
+function samePoint(a: { x: number; y: number }, b: { x: number; y: number }): boolean {
+  return a.x === b.x && a.y === b.y;
 }
 
-function buildSegments(room: RoomDefinition, walls: WallItem[]): RoomBoundarySegment[] {
+function buildSegments(room: RoomDefinition, wallsById: Map<string, WallItem>, graph: WallGraph): RoomBoundarySegment[] {
   if (room.walls.length === 0) return [];
 
   const segments: RoomBoundarySegment[] = [];
-  let previousEnd: { x: number; y: number } | null = null;
-  let firstPoint: { x: number; y: number } | null = null;
+  let previousEnd: WallNode | null = null;
+  let firstNode: WallNode | null = null;
 
   room.walls.forEach(({ wallId, direction }) => {
-    const wall = walls.find((w) => w.id === wallId);
+    const wall = wallsById.get(wallId);
     if (!wall) return;
 
-    const start = direction === 'reverse'
-      ? { x: wall.endX, y: wall.endY }
-      : { x: wall.startX, y: wall.startY };
-    const end = direction === 'reverse'
-      ? { x: wall.startX, y: wall.startY }
-      : { x: wall.endX, y: wall.endY };
+    const startNode = getWallEndNode(graph, wall.id, direction === 'reverse' ? 'end' : 'start');
+    const endNode = getWallEndNode(graph, wall.id, direction === 'reverse' ? 'start' : 'end');
+    if (!startNode || !endNode) return;
+
+    const start = { x: startNode.x, y: startNode.y };
+    const end = { x: endNode.x, y: endNode.y };
 
-    if (!firstPoint) {
-      firstPoint = { ...start };
+    if (!firstNode) {
+      firstNode = startNode;
     }
 
-    if (previousEnd && !pointsRoughlyEqual(previousEnd, start)) {
+    if (previousEnd && previousEnd.id !== startNode.id) {
       segments.push({
         type: 'pseudo',
-        start: { ...previousEnd },
+        start: { x: previousEnd.x, y: previousEnd.y },
         end: { ...start }
       });
     }
@@ -58,41 +57,126 @@ function buildSegments(room: RoomDefinition, walls: WallItem[]): RoomBoundarySeg
       end
     });
 
-    previousEnd = { ...end };
+    previousEnd = endNode;
   });
 
-  if (segments.length > 0 && previousEnd && firstPoint && !pointsRoughlyEqual(previousEnd, firstPoint)) {
+  const lastNode = previousEnd as WallNode | null;
+  const openingNode = firstNode as WallNode | null;
+  if (segments.length > 0 && lastNode && openingNode && lastNode.id !== openingNode.id) {
     segments.push({
       type: 'pseudo',
-      start: { ...previousEnd },
-      end: { ...firstPoint }
+      start: { x: lastNode.x, y: lastNode.y },
+      end: { x: openingNode.x, y: openingNode.y }
     });
   }
 
   return segments;
 }
 
-function buildPolygonPoints(segments: RoomBoundarySegment[]): number[] {
+// Interior points of an arc wall in the direction the room walks it
+function arcInteriorPoints(segment: RoomBoundarySegment, wallsById: Map<string, WallItem>): { x: number; y: number }[] {
+  if (segment.type !== 'wall') return [];
+  const wall = wallsById.get(segment.wallId);
+  if (!wall || !isArcWall(wall)) return [];
+
+  const points = tessellateWall(wall).slice(1, -1);
+  const fromStart = Math.hypot(segment.start.x - wall.startX, segment.start.y - wall.startY);
+  const fromEnd = Math.hypot(segment.start.x - wall.endX, segment.start.y - wall.endY);
+  return fromEnd < fromStart ? points.reverse() : points;
+}
+
+function buildPolygonPoints(segments: RoomBoundarySegment[], wallsById: Map<string, WallItem>): number[] {
   if (segments.length === 0) return [];
 
   const vertices: { x: number; y: number }[] = [];
   vertices.push({ ...segments[0].start });
 
+  // Segment ends come from shared junction nodes, so joined corners compare exactly
   segments.forEach((segment) => {
     const lastVertex = vertices[vertices.length - 1];
-    if (!pointsRoughlyEqual(lastVertex, segment.start)) {
+    if (!samePoint(lastVertex, segment.start)) {
       vertices.push({ ...segment.start });
     }
+    vertices.push(...arcInteriorPoints(segment, wallsById));
     vertices.push({ ...segment.end });
   });
 
-  if (vertices.length > 1 && pointsRoughlyEqual(vertices[0], vertices[vertices.length - 1])) {
+  if (vertices.length > 1 && samePoint(vertices[0], vertices[vertices.length - 1])) {
     vertices.pop();
   }
 
   return vertices.flatMap((point) => [point.x, point.y]);
 }
 
+interface InsetEdge {
+  start: { x: number; y: number };
+  end: { x: number; y: number };
+  inset: number;
+}
+
+// Boundary edges in walking order, each tagged with how far the wall face sits inside the centreline
+function buildInsetEdges(segments: RoomBoundarySegment[], wallsById: Map<string, WallItem>): InsetEdge[] {
+  return segments.flatMap((segment) => {
+    const wall = segment.type === 'wall' ? wallsById.get(segment.wallId) : undefined;
+    const inset = wall ? wall.thickness / 2 : 0;
+    const points = [segment.start, ...arcInteriorPoints(segment, wallsById), segment.end];
+
+    return points.slice(1)
+      .map((end, index) => ({ start: points[index], end, inset }))
+      .filter((edge) => !samePoint(edge.start, edge.end));
+  });
+}
+
+/**
+ * Area enclosed once every wall edge is pushed inwards (`side` 1) or outwards (`side` -1) by half
+ * its thickness. Consecutive offset edges are intersected like mitred corners; outlines that
+ * collapse under the offset are 0.
+ */
+function computeOffsetArea(segments: RoomBoundarySegment[], wallsById: Map<string, WallItem>, side: 1 | -1): number {
+  const edges = buildInsetEdges(segments, wallsById);
+  if (edges.length < 3) return 0;
+
+  const outline = edges.flatMap((edge) => [edge.start.x, edge.start.y]);
+  const orientation = Math.sign(computeSignedArea(outline));
+  if (orientation === 0) return 0;
+
+  const insetLines = edges.map((edge) => {
+    const dx = edge.end.x - edge.start.x;
+    const dy = edge.end.y - edge.start.y;
+    const length = Math.hypot(dx, dy);
+    // Left normals point into positively wound polygons
+    const normal = { x: (-dy / length) * orientation * side, y: (dx / length) * orientation * side };
+    return {
+      point: { x: edge.start.x + normal.x * edge.inset, y: edge.start.y + normal.y * edge.inset },
+      direction: { x: dx, y: dy }
+    };
+  });
+
+  const inset = insetLines.flatMap((line, index) => {
+    const previous = insetLines[(index - 1 + insetLines.length) % insetLines.length];
+    const denominator = previous.direction.x * line.direction.y - previous.direction.y * line.direction.x;
+    if (Math.abs(denominator) < 1e-9) {
+      return [line.point.x, line.point.y];
+    }
+
+    const t = ((line.point.x - previous.point.x) * line.direction.y - (line.point.y - previous.point.y) * line.direction.x) / denominator;
+    return [previous.point.x + previous.direction.x * t, previous.point.y + previous.direction.y * t];
+  });
+
+  // An offset that flips the winding has collapsed the outline
+  const insetArea = computeSignedArea(inset) * orientation;
+  return insetArea > 0 ? insetArea : 0;
+}
+
+function computeSignedArea(points: number[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i += 2) {
+    const nextIndex = (i + 2) % points.length;
+    area += points[i] * points[nextIndex + 1] - points[nextIndex] * points[i + 1];
+  }
+  return area / 2;
+}
+
 function computePolygonCentroid(points: number[]): { x: number; y: number } | null {
   if (points.length < 6) return null; // fewer than 3 vertices
 
@@ -122,6 +206,183 @@ function computePolygonCentroid(points: number[]): { x: number; y: number } | nu
   return { x: cx, y: cy };
 }
 
+// Signed distance from a point to the polygon outline or its holes, positive inside the floor
+function signedDistanceToOutline(x: number, y: number, points: number[], holes: number[][] = []): number {
+  let minDistanceSq = Infinity;
+
+  [points, ...holes].forEach((ring) => {
+    minDistanceSq = Math.min(minDistanceSq, distanceSqToRing(x, y, ring));
+  });
+
+  const distance = Math.sqrt(minDistanceSq);
+  return pointInRoomArea(x, y, points, holes) ? distance : -distance;
+}
+
+function distanceSqToRing(x: number, y: number, points: number[]): number {
+  let minDistanceSq = Infinity;
+
+  for (let i = 0; i < points.length; i += 2) {
+    const nextIndex = (i + 2) % points.length;
+    const ax = points[i];
+    const ay = points[i + 1];
+    const dx = points[nextIndex] - ax;
+    const dy = points[nextIndex + 1] - ay;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / lengthSq)) : 0;
+    const px = ax + dx * t - x;
+    const py = ay + dy * t - y;
+    minDistanceSq = Math.min(minDistanceSq, px * px + py * py);
+  }
+
+  return minDistanceSq;
+}
+
+interface LabelCell {
+  x: number;
+  y: number;
+  half: number;
+  distance: number;
+  potential: number; // best distance any point in the cell could reach
+}
+
+// Max-heap on potential, so the most promising cell is always taken next
+function pushCell(heap: LabelCell[], cell: LabelCell) {
+  heap.push(cell);
+  let index = heap.length - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (heap[parent].potential >= cell.potential) break;
+    heap[index] = heap[parent];
+    index = parent;
+  }
+  heap[index] = cell;
+}
+
+function popCell(heap: LabelCell[]): LabelCell | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length === 0 || !last) return top;
+
+  let index = 0;
+  const half = heap.length >> 1;
+  while (index < half) {
+    let child = 2 * index + 1;
+    if (child + 1 < heap.length && heap[child + 1].potential > heap[child].potential) child += 1;
+    if (heap[child].potential <= last.potential) break;
+    heap[index] = heap[child];
+    index = child;
+  }
+  heap[index] = last;
+  return top;
+}
+
+/**
+ * Point inside the polygon furthest from its outline and holes (the pole of inaccessibility),
+ * found by subdividing grid cells and discarding those that cannot beat the best point so far.
+ * Unlike the centroid it never falls outside L-shaped or otherwise concave rooms. Without a
+ * precision the search stops within 1% of the room's smaller side.
+ */
+export function computePoleOfInaccessibility(
+  points: number[],
+  holes: number[][] = [],
+  precision?: number
+): { x: number; y: number } | null {
+  if (points.length < 6) return null;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (let i = 0; i < points.length; i += 2) {
+    minX = Math.min(minX, points[i]);
+    minY = Math.min(minY, points[i + 1]);
+    maxX = Math.max(maxX, points[i]);
+    maxY = Math.max(maxY, points[i + 1]);
+  }
+
+  const cellSize = Math.min(maxX - minX, maxY - minY);
+  if (cellSize <= 0) return null;
+  const tolerance = precision ?? Math.max(1, cellSize / 100);
+
+  const createCell = (x: number, y: number, half: number): LabelCell => {
+    const distance = signedDistanceToOutline(x, y, points, holes);
+    return { x, y, half, distance, potential: distance + half * Math.SQRT2 };
+  };
+
+  const queue: LabelCell[] = [];
+  for (let x = minX; x < maxX; x += cellSize) {
+    for (let y = minY; y < maxY; y += cellSize) {
+      pushCell(queue, createCell(x + cellSize / 2, y + cellSize / 2, cellSize / 2));
+    }
+  }
+
+  const centroid = computePolygonCentroid(points);
+  let best = createCell((minX + maxX) / 2, (minY + maxY) / 2, 0);
+  if (centroid) {
+    const centroidCell = createCell(centroid.x, centroid.y, 0);
+    if (centroidCell.distance > best.distance) best = centroidCell;
+  }
+
+  for (let cell = popCell(queue); cell; cell = popCell(queue)) {
+    if (cell.distance > best.distance) best = cell;
+    // Nothing left in the heap can beat the best point by more than the tolerance
+    if (cell.potential - best.distance <= tolerance) break;
+
+    const half = cell.half / 2;
+    pushCell(queue, createCell(cell.x - half, cell.y - half, half));
+    pushCell(queue, createCell(cell.x + half, cell.y - half, half));
+    pushCell(queue, createCell(cell.x - half, cell.y + half, half));
+    pushCell(queue, createCell(cell.x + half, cell.y + half, half));
+  }
+
+  return best.distance > 0 ? { x: best.x, y: best.y } : centroid;
+}
+
+interface LabelPointCacheEntry {
+  points: number[];
+  holes: number[][];
+  point: { x: number; y: number } | null;
+}
+
+// Rooms are recomputed on every entity update (a drag fires one per mouse move), while their
+// outlines rarely change, so label points are kept per room until its polygon or holes move
+const labelPointCache = new Map<string, LabelPointCacheEntry>();
+
+const sameRing = (a: number[], b: number[]) => a.length === b.length && a.every((value, index) => value === b[index]);
+
+function getRoomLabelPoint(roomId: string, points: number[], holes: number[][]): { x: number; y: number } | null {
+  const cached = labelPointCache.get(roomId);
+  if (
+    cached &&
+    sameRing(cached.points, points) &&
+    cached.holes.length === holes.length &&
+    cached.holes.every((hole, index) => sameRing(hole, holes[index]))
+  ) {
+    return cached.point;
+  }
+
+  const point = computePoleOfInaccessibility(points, holes);
+  labelPointCache.set(roomId, { points, holes, point });
+  return point;
+}
+
+export function computePolygonArea(points: number[]): number {
+  if (points.length < 6) return 0;
+  return Math.abs(computeSignedArea(points));
+}
+
+export function computePolygonPerimeter(points: number[]): number {
+  if (points.length < 4) return 0;
+
+  let perimeter = 0;
+  for (let i = 0; i < points.length; i += 2) {
+    const nextIndex = (i + 2) % points.length;
+    perimeter += Math.hypot(points[nextIndex] - points[i], points[nextIndex + 1] - points[i + 1]);
+  }
+
+  return perimeter;
+}
+
 function arraysEqual(a: string[] | undefined, b: string[] | undefined): boolean {
   if (a === b) return true;
   if (!a || !b) return (!a || a.length === 0) && (!b || b.length === 0);
@@ -148,9 +409,13 @@ function pointInPolygon(x: number, y: number, polygonPoints: number[]): boolean
   return inside;
 }
 
+function pointInRoomArea(x: number, y: number, polygonPoints: number[], holes: number[][]): boolean {
+  return pointInPolygon(x, y, polygonPoints) && !holes.some((hole) => pointInPolygon(x, y, hole));
+}
+
 export function isPointInsideRoom(room: ComputedRoom, x: number, y: number): boolean {
   if (room.polygonPoints.length < 6) return false;
-  return pointInPolygon(x, y, room.polygonPoints);
+  return pointInRoomArea(x, y, room.polygonPoints, room.holes);
 }
 
 export function findRoomAtPoint(rooms: ComputedRoom[], x: number, y: number): ComputedRoom | undefined {
@@ -213,22 +478,80 @@ export function generateRoomName(existingRooms: RoomDefinition[], baseName = 'Ro
   return `${baseName} ${Date.now()}`;
 }
 
+// Nested outlines must clear the outer one by this much, rooms sharing a wall are not islands
+const NESTING_CLEARANCE = 1e-6;
+
+function isNestedInside(inner: number[], outer: number[]): boolean {
+  if (inner.length < 6 || outer.length < 6 || computePolygonArea(inner) >= computePolygonArea(outer)) return false;
+
+  for (let i = 0; i < inner.length; i += 2) {
+    if (signedDistanceToOutline(inner[i], inner[i + 1], outer) <= NESTING_CLEARANCE) return false;
+  }
+  return true;
+}
+
+/**
+ * For each outline, the indices of the outlines directly nested inside it. A closet inside a
+ * bedroom is a hole in the bedroom, but a shelf inside that closet only in the closet.
+ */
+function findNestedOutlines(outlines: number[][]): number[][] {
+  const contained = outlines.map((outer, outerIndex) => outlines
+    .map((_, index) => index)
+    .filter((index) => index !== outerIndex && isNestedInside(outlines[index], outer)));
+
+  return contained.map((indices) => indices.filter((index) => (
+    !indices.some((other) => other !== index && contained[other].includes(index))
+  )));
+}
+
 export function computeRooms(roomDefinitions: RoomDefinition[], entities: PlacedEntity[]): ComputedRoom[] {
   const walls = entities.filter((entity): entity is WallItem => entity.type === 'wall');
+  const wallsById = new Map(walls.map((wall) => [wall.id, wall]));
+  const graph = buildWallGraph(walls);
+
+  const outlines = roomDefinitions.map((definition) => {
+    const segments = buildSegments(definition, wallsById, graph);
+    return { segments, polygonPoints: buildPolygonPoints(segments, wallsById) };
+  });
+  const nestedOutlines = findNestedOutlines(outlines.map((outline) => outline.polygonPoints));
 
-  return roomDefinitions.map((definition) => {
-    const segments = buildSegments(definition, walls);
-    const polygonPoints = buildPolygonPoints(segments);
+  return roomDefinitions.map((definition, index) => {
+    const { segments, polygonPoints } = outlines[index];
+    const islands = nestedOutlines[index].map((nestedIndex) => outlines[nestedIndex]);
+    const holes = islands.map((island) => island.polygonPoints);
+    const isPolygon = polygonPoints.length >= 6;
     const centroid = computePolygonCentroid(polygonPoints);
+    const outerArea = computePolygonArea(polygonPoints);
+    const area = Math.max(0, holes.reduce((total, hole) => total - computePolygonArea(hole), outerArea));
+    // A dragged label keeps its spot only while it stays inside the room
+    const labelPoint = definition.labelPosition &&
+      pointInRoomArea(definition.labelPosition.x, definition.labelPosition.y, polygonPoints, holes)
+      ? definition.labelPosition
+      : getRoomLabelPoint(definition.id, polygonPoints, holes);
+    // Islands take floor space out to the outer faces of their walls
+    const usableArea = isPolygon
+      ? Math.max(0, islands.reduce(
+        (total, island) => total - computeOffsetArea(island.segments, wallsById, -1),
+        Math.min(computeOffsetArea(segments, wallsById, 1), outerArea)
+      ))
+      : 0;
 
     return {
       id: definition.id,
       name: definition.name,
       flooring: definition.flooring,
+      flooringScale: definition.flooringScale ?? 1,
+      flooringRotation: definition.flooringRotation ?? 0,
+      roomType: definition.roomType,
       color: definition.color,
       segments,
       polygonPoints,
-      centroid
+      holes,
+      centroid,
+      labelPoint,
+      area,
+      perimeter: isPolygon ? [polygonPoints, ...holes].reduce((total, ring) => total + computePolygonPerimeter(ring), 0) : 0,
+      usableArea
     };
   });
 }
@@ -267,11 +590,15 @@ export function assignEntitiesToRooms(
       };
     }
 
-    const item = entity as PlacedItem;
+    if (!isPlacedItem(entity)) {
+      return entity;
+    }
+
+    const item = entity;
     let targetRoomId = item.roomId ?? NOT_IN_ROOM_ID;
 
     for (const room of polygonRooms) {
-      if (pointInPolygon(item.x, item.y, room.polygonPoints)) {
+      if (isPointInsideRoom(room, item.x, item.y)) {
         targetRoomId = room.id;
         break;
       }
@@ -326,7 +653,11 @@ export function collectRoomEntityIds(
       return acc;
     }
 
-    const item = entity as PlacedItem;
+    if (!isPlacedItem(entity)) {
+      return acc;
+    }
+
+    const item = entity;
     const roomId = item.roomId ?? NOT_IN_ROOM_ID;
     if (!acc[roomId]) acc[roomId] = [];
     acc[roomId].push(item.id);
@@ -0,0 +1,158 @@
+import { v4 as uuidv4 } from 'uuid';
+import { CustomSymbol, Item, RealDimensions } from '@/app/plans/[planId]/types';
+import { getRealDimensions } from './furnitureDimensions';
+
+export const DEFAULT_SVG_SIZE = 50;
+export const MAX_SYMBOL_BYTES = 512 * 1024;
+
+const SYMBOL_FOLDER = 'symbols';
+const UNSAFE_ELEMENTS = ['script', 'foreignObject', 'iframe', 'object', 'embed'];
+
+export interface SvgSizeAttributes {
+  width?: string | null;
+  height?: string | null;
+  viewBox?: string | null;
+}
+
+const parseLength = (value: string) => parseFloat(value.replace(/[^\d.-]/g, ''));
+const isAbsoluteLength = (value?: string | null): value is string => Boolean(value) && !value?.trim().endsWith('%');
+
+/**
+ * Pixel size of an SVG from its width and height attributes, else its viewBox, else 50 × 50.
+ */
+export function resolveSvgSize({ width, height, viewBox }: SvgSizeAttributes): { width: number; height: number } {
+  let resolvedWidth = DEFAULT_SVG_SIZE;
+  let resolvedHeight = DEFAULT_SVG_SIZE;
+
+  if (isAbsoluteLength(width) && isAbsoluteLength(height)) {
+    resolvedWidth = parseLength(width);
+    resolvedHeight = parseLength(height);
+  } else if (viewBox) {
+    const parts = viewBox.trim().split(/[\s,]+/);
+    if (parts.length >= 4) {
+      resolvedWidth = parseFloat(parts[2]);
+      resolvedHeight = parseFloat(parts[3]);
+    }
+  }
+
+  return {
+    width: resolvedWidth > 0 ? resolvedWidth : DEFAULT_SVG_SIZE,
+    height: resolvedHeight > 0 ? resolvedHeight : DEFAULT_SVG_SIZE
+  };
+}
+
+/**
+ * Why an uploaded file cannot be used as a symbol, or null when it can.
+ */
+export function validateSymbolFile(file: { name: string; type: string; size: number }): string | null {
+  if (file.type !== 'image/svg+xml' && !file.name.toLowerCase().endsWith('.svg')) {
+    return 'Symbols must be SVG files.';
+  }
+  if (file.size > MAX_SYMBOL_BYTES) {
+    return 'Symbols must be smaller than 512 KB.';
+  }
+  return null;
+}
+
+export type SvgSymbolResult =
+  | { ok: true; svg: string; width: number; height: number }
+  | { ok: false; error: string };
+
+/**
+ * Parse an uploaded SVG in the browser, strip scripts, event handlers and external references, and
+ * give it the explicit viewBox and pixel size the canvas needs to draw it as an image.
+ */
+export function normalizeSvgSymbol(content: string): SvgSymbolResult {
+  const document = new DOMParser().parseFromString(content, 'image/svg+xml');
+  const svg = document.documentElement;
+  if (document.getElementsByTagName('parsererror').length > 0 || svg.nodeName !== 'svg') {
+    return { ok: false, error: 'The file is not a valid SVG.' };
+  }
+
+  UNSAFE_ELEMENTS.forEach((tag) => {
+    Array.from(svg.getElementsByTagName(tag)).forEach((element) => element.remove());
+  });
+  [svg, ...Array.from(svg.getElementsByTagName('*'))].forEach((element) => {
+    Array.from(element.attributes).forEach((attribute) => {
+      const name = attribute.name.toLowerCase();
+      const isExternalReference = (name === 'href' || name === 'xlink:href') &&
+        !attribute.value.startsWith('#') &&
+        !attribute.value.startsWith('data:image/');
+      if (name.startsWith('on') || isExternalReference) {
+        element.removeAttribute(attribute.name);
+      }
+    });
+  });
+
+  const size = resolveSvgSize({
+    width: svg.getAttribute('width'),
+    height: svg.getAttribute('height'),
+    viewBox: svg.getAttribute('viewBox')
+  });
+  if (!svg.getAttribute('viewBox')) {
+    svg.setAttribute('viewBox', `0 0 ${size.width} ${size.height}`);
+  }
+  svg.setAttribute('width', String(size.width));
+  svg.setAttribute('height', String(size.height));
+
+  return { ok: true, svg: new XMLSerializer().serializeToString(svg), ...size };
+}
+
+/**
+ * Library entry for an uploaded symbol. Without a real size the SVG is read at the default drawing
+ * scale, like catalog icons that have no dimensions.
+ */
+export function createCustomSymbol(
+  name: string,
+  url: string,
+  size: { width: number; height: number },
+  dimensions?: RealDimensions,
+  file: CustomSymbol['file'] = `symbol-${uuidv4()}`
+): CustomSymbol {
+  return {
+    file,
+    name: name.trim() || 'Custom symbol',
+    url,
+    width: size.width,
+    height: size.height,
+    dimensions: dimensions ?? getRealDimensions(file, size) ?? { width: 1, depth: 1 }
+  };
+}
+
+function isCustomSymbol(candidate: unknown): candidate is CustomSymbol {
+  if (!candidate || typeof candidate !== 'object') return false;
+  const symbol = candidate as Partial<CustomSymbol>;
+  return typeof symbol.file === 'string' &&
+    symbol.file.startsWith('symbol-') &&
+    typeof symbol.name === 'string' &&
+    typeof symbol.url === 'string' &&
+    typeof symbol.width === 'number' &&
+    typeof symbol.height === 'number' &&
+    typeof symbol.dimensions?.width === 'number' &&
+    typeof symbol.dimensions?.depth === 'number';
+}
+
+export function normalizeSymbolLibrary(value: unknown): CustomSymbol[] {
+  return Array.isArray(value) ? value.filter(isCustomSymbol) : [];
+}
+
+export function symbolToItem(symbol: CustomSymbol): Item {
+  return {
+    file: symbol.file,
+    name: symbol.name,
+    type: 'furniture',
+    category: 'custom',
+    tags: [],
+    width: symbol.width,
+    height: symbol.height,
+    inverted: false,
+    rotation: 0,
+    scale: 1,
+    dimensions: { ...symbol.dimensions },
+    src: symbol.url
+  };
+}
+
+// Libraries belong to the plan owner's account and are shared with everyone working on their plans
+export const symbolLibraryPath = (ownerId: string) => `${SYMBOL_FOLDER}/${ownerId}/library.json`;
+export const symbolPath = (ownerId: string, file: CustomSymbol['file']) => `${SYMBOL_FOLDER}/${ownerId}/${file}.svg`;
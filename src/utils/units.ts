@@ -0,0 +1,106 @@
+import {
+  DEFAULT_PLAN_UNITS,
+  PlanUnits,
+  RealDimensions,
+  UnitSystem
+} from '@/app/plans/[planId]/types';
+
+export const METERS_PER_FOOT = 0.3048;
+const INCHES_PER_FOOT = 12;
+const SQUARE_FEET_PER_SQUARE_METER = 1 / (METERS_PER_FOOT * METERS_PER_FOOT);
+
+const MIN_PIXELS_PER_METER = 1;
+const MAX_PIXELS_PER_METER = 2000;
+
+export function pixelsToMeters(pixels: number, units: PlanUnits): number {
+  return pixels / units.pixelsPerMeter;
+}
+
+export function metersToPixels(meters: number, units: PlanUnits): number {
+  return meters * units.pixelsPerMeter;
+}
+
+export function squarePixelsToSquareMeters(squarePixels: number, units: PlanUnits): number {
+  return squarePixels / (units.pixelsPerMeter * units.pixelsPerMeter);
+}
+
+/**
+ * Canvas pixels per display unit: one metre for metric plans, one foot for imperial plans.
+ */
+export function pixelsPerDisplayUnit(units: PlanUnits): number {
+  return units.system === 'imperial'
+    ? units.pixelsPerMeter * METERS_PER_FOOT
+    : units.pixelsPerMeter;
+}
+
+export function displayUnitLabel(system: UnitSystem): string {
+  return system === 'imperial' ? 'ft' : 'm';
+}
+
+export function metersToDisplayUnits(meters: number, system: UnitSystem): number {
+  return system === 'imperial' ? meters / METERS_PER_FOOT : meters;
+}
+
+export function displayUnitsToMeters(value: number, system: UnitSystem): number {
+  return system === 'imperial' ? value * METERS_PER_FOOT : value;
+}
+
+export function squareMetersToDisplayUnits(squareMeters: number, system: UnitSystem): number {
+  return system === 'imperial' ? squareMeters * SQUARE_FEET_PER_SQUARE_METER : squareMeters;
+}
+
+export function formatMeters(meters: number, system: UnitSystem): string {
+  if (system === 'imperial') {
+    const totalInches = Math.round((Math.abs(meters) / METERS_PER_FOOT) * INCHES_PER_FOOT);
+    const feet = Math.floor(totalInches / INCHES_PER_FOOT);
+    const inches = totalInches % INCHES_PER_FOOT;
+    const sign = meters < 0 ? '-' : '';
+    return `${sign}${feet}' ${inches}"`;
+  }
+
+  if (Math.abs(meters) < 1) {
+    return `${Math.round(meters * 100)} cm`;
+  }
+
+  return `${meters.toFixed(2)} m`;
+}
+
+export function formatSquareMeters(squareMeters: number, system: UnitSystem): string {
+  if (system === 'imperial') {
+    return `${Math.round(squareMeters * SQUARE_FEET_PER_SQUARE_METER)} ft²`;
+  }
+
+  return `${squareMeters.toFixed(1)} m²`;
+}
+
+export function formatLength(pixels: number, units: PlanUnits): string {
+  return formatMeters(pixelsToMeters(pixels, units), units.system);
+}
+
+export function formatArea(squarePixels: number, units: PlanUnits): string {
+  return formatSquareMeters(squarePixelsToSquareMeters(squarePixels, units), units.system);
+}
+
+export function formatDimensions(dimensions: RealDimensions, system: UnitSystem): string {
+  return `${formatMeters(dimensions.width, system)} × ${formatMeters(dimensions.depth, system)}`;
+}
+
+export function clampPixelsPerMeter(value: number): number {
+  if (!Number.isFinite(value)) return DEFAULT_PLAN_UNITS.pixelsPerMeter;
+  return Math.max(MIN_PIXELS_PER_METER, Math.min(MAX_PIXELS_PER_METER, value));
+}
+
+export function normalizePlanUnits(candidate: unknown): PlanUnits {
+  if (!candidate || typeof candidate !== 'object') {
+    return { ...DEFAULT_PLAN_UNITS };
+  }
+
+  const { system, pixelsPerMeter } = candidate as Partial<PlanUnits>;
+
+  return {
+    system: system === 'imperial' ? 'imperial' : 'metric',
+    pixelsPerMeter: typeof pixelsPerMeter === 'number'
+      ? clampPixelsPerMeter(pixelsPerMeter)
+      : DEFAULT_PLAN_UNITS.pixelsPerMeter
+  };
+}
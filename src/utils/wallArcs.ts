@@ -0,0 +1,209 @@
+import { WallItem } from '@/app/plans/[planId]/types';
+import { Point } from '@/app/lib/types';
+import { distance } from '@/app/lib/geometry';
+
+// Maximum angle covered by one tessellated chord
+const ARC_STEP_RADIANS = Math.PI / 24;
+const MIN_BULGE = 1e-6;
+// Keeps generated arcs below a full circle
+const MAX_BULGE = 10;
+
+export interface ArcGeometry {
+  center: Point;
+  radius: number;
+  startAngle: number; // radians
+  sweep: number; // signed radians, positive turns the same way as increasing screen angles
+}
+
+export interface WallProjection {
+  point: Point;
+  distance: number;
+  t: number; // 0 at the wall start, 1 at its end
+  tangentAngle: number; // degrees
+}
+
+/**
+ * Arc walls use the bulge convention: bulge = tan(sweep / 4), so 0 is straight and ±1 a half circle.
+ */
+export function isArcWall(wall: WallItem): boolean {
+  return Math.abs(wall.bulge ?? 0) > MIN_BULGE;
+}
+
+export function getArcGeometry(wall: WallItem): ArcGeometry | null {
+  if (!isArcWall(wall)) return null;
+
+  const start = { x: wall.startX, y: wall.startY };
+  const end = { x: wall.endX, y: wall.endY };
+  const chord = distance(start, end);
+  if (chord < 1e-6) return null;
+
+  const bulge = wall.bulge as number;
+  const sweep = 4 * Math.atan(bulge);
+  const radius = chord / (2 * Math.abs(Math.sin(sweep / 2)));
+
+  // Centre sits on the chord's perpendicular bisector at the signed apothem
+  const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+  const normal = { x: -(end.y - start.y) / chord, y: (end.x - start.x) / chord };
+  const apothem = (chord / 2) * ((1 - bulge * bulge) / (2 * bulge));
+  const center = { x: mid.x + normal.x * apothem, y: mid.y + normal.y * apothem };
+
+  return {
+    center,
+    radius,
+    startAngle: Math.atan2(start.y - center.y, start.x - center.x),
+    sweep
+  };
+}
+
+export function pointOnWall(wall: WallItem, t: number): Point {
+  const arc = getArcGeometry(wall);
+  if (!arc) {
+    return {
+      x: wall.startX + (wall.endX - wall.startX) * t,
+      y: wall.startY + (wall.endY - wall.startY) * t
+    };
+  }
+
+  const angle = arc.startAngle + arc.sweep * t;
+  return {
+    x: arc.center.x + Math.cos(angle) * arc.radius,
+    y: arc.center.y + Math.sin(angle) * arc.radius
+  };
+}
+
+/**
+ * Points along the wall centreline from start to end. Straight walls return just their endpoints.
+ */
+export function tessellateWall(wall: WallItem): Point[] {
+  const arc = getArcGeometry(wall);
+  if (!arc) {
+    return [{ x: wall.startX, y: wall.startY }, { x: wall.endX, y: wall.endY }];
+  }
+
+  const steps = Math.max(2, Math.ceil(Math.abs(arc.sweep) / ARC_STEP_RADIANS));
+  const points: Point[] = [];
+  for (let i = 0; i <= steps; i++) {
+    points.push(pointOnWall(wall, i / steps));
+  }
+
+  // Pin the ends exactly so junctions stay shared
+  points[0] = { x: wall.startX, y: wall.startY };
+  points[points.length - 1] = { x: wall.endX, y: wall.endY };
+  return points;
+}
+
+/**
+ * Centreline shifted sideways by `offset` (positive to the left of the start → end direction).
+ */
+export function offsetWallCenterline(wall: WallItem, offset: number): Point[] {
+  const points = tessellateWall(wall);
+
+  return points.map((point, index) => {
+    const previous = points[Math.max(0, index - 1)];
+    const next = points[Math.min(points.length - 1, index + 1)];
+    const length = distance(previous, next);
+    if (length === 0) return point;
+
+    return {
+      x: point.x - ((next.y - previous.y) / length) * offset,
+      y: point.y + ((next.x - previous.x) / length) * offset
+    };
+  });
+}
+
+export function getWallLength(wall: WallItem): number {
+  const arc = getArcGeometry(wall);
+  if (!arc) {
+    return distance({ x: wall.startX, y: wall.startY }, { x: wall.endX, y: wall.endY });
+  }
+  return Math.abs(arc.sweep) * arc.radius;
+}
+
+export function projectOntoWall(wall: WallItem, point: Point): WallProjection {
+  const arc = getArcGeometry(wall);
+
+  if (!arc) {
+    const dx = wall.endX - wall.startX;
+    const dy = wall.endY - wall.startY;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point.x - wall.startX) * dx + (point.y - wall.startY) * dy) / lengthSquared));
+    const projected = { x: wall.startX + dx * t, y: wall.startY + dy * t };
+
+    return {
+      point: projected,
+      distance: distance(point, projected),
+      t,
+      tangentAngle: (Math.atan2(dy, dx) * 180) / Math.PI
+    };
+  }
+
+  // Angle of the point measured along the sweep direction from the arc start
+  const pointAngle = Math.atan2(point.y - arc.center.y, point.x - arc.center.x);
+  const direction = Math.sign(arc.sweep);
+  let offset = (pointAngle - arc.startAngle) * direction;
+  offset = ((offset % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI);
+
+  const span = Math.abs(arc.sweep);
+  let t: number;
+  if (offset <= span) {
+    t = offset / span;
+  } else {
+    // Outside the arc: clamp to whichever end is angularly closer
+    t = offset - span < 2 * Math.PI - offset ? 1 : 0;
+  }
+
+  const projected = pointOnWall(wall, t);
+  const angle = arc.startAngle + arc.sweep * t;
+  const tangent = angle + (direction * Math.PI) / 2;
+
+  return {
+    point: projected,
+    distance: distance(point, projected),
+    t,
+    tangentAngle: (tangent * 180) / Math.PI
+  };
+}
+
+export function distanceToWall(wall: WallItem, point: Point): number {
+  return projectOntoWall(wall, point).distance;
+}
+
+/**
+ * Direction of travel when leaving `endpoint` along the wall, in radians.
+ */
+export function wallDepartureAngle(wall: WallItem, endpoint: 'start' | 'end'): number {
+  const points = tessellateWall(wall);
+  const [from, to] = endpoint === 'start'
+    ? [points[0], points[1]]
+    : [points[points.length - 1], points[points.length - 2]];
+  return Math.atan2(to.y - from.y, to.x - from.x);
+}
+
+/**
+ * Bulge for an arc from start to end passing through `through`. Points on the chord give 0.
+ */
+export function bulgeThroughPoint(start: Point, end: Point, through: Point): number {
+  const chord = distance(start, end);
+  if (chord < 1e-6) return 0;
+
+  const normal = { x: -(end.y - start.y) / chord, y: (end.x - start.x) / chord };
+  const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+  // Signed sagitta: bulge * chord / 2, measured opposite to the centre offset
+  const sagitta = -((through.x - mid.x) * normal.x + (through.y - mid.y) * normal.y);
+  const bulge = (2 * sagitta) / chord;
+
+  if (Math.abs(bulge) < 1e-3) return 0;
+  return Math.max(-MAX_BULGE, Math.min(MAX_BULGE, bulge));
+}
+
+/**
+ * Bulges of the two pieces left after cutting the wall at parameter `t`.
+ */
+export function splitWallBulge(wall: WallItem, t: number): [number | undefined, number | undefined] {
+  const arc = getArcGeometry(wall);
+  if (!arc) return [wall.bulge, wall.bulge];
+
+  return [Math.tan((arc.sweep * t) / 4), Math.tan((arc.sweep * (1 - t)) / 4)];
+}
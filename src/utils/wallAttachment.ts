@@ -1,4 +1,5 @@
 import { Item, WallItem, PlacedEntity, PlacedItem } from '@/app/plans/[planId]/types';
+import { distanceToWall, isArcWall } from './wallArcs';
 
 interface AttachmentPoint {
   x: number;
@@ -149,7 +150,7 @@ export function canPlaceOnWall(
   }
   
   // Get all walls
-  const walls = placedEntities.filter((entity): entity is WallItem => entity.type === 'wall');
+  const walls = placedEntities.filter((entity): entity is WallItem => entity.type === 'wall' && !entity.separator);
   
   if (walls.length === 0) {
     return false; // Can't place doors/windows without walls
@@ -175,7 +176,7 @@ export function findAttachedWallId(
     return null;
   }
 
-  const walls = placedEntities.filter((entity): entity is WallItem => entity.type === 'wall');
+  const walls = placedEntities.filter((entity): entity is WallItem => entity.type === 'wall' && !entity.separator);
   if (walls.length === 0) return null;
 
   const attachment = getAttachmentGeometry(item, item.x, item.y);
@@ -193,6 +194,10 @@ export function findAttachedWallId(
  * Calculate distance from point to wall line
  */
 function distanceToWallLine(x: number, y: number, wall: WallItem): number {
+  if (isArcWall(wall)) {
+    return distanceToWall(wall, { x, y });
+  }
+
   const { startX, startY, endX, endY } = wall;
   
   const wallLength = Math.sqrt((endX - startX) ** 2 + (endY - startY) ** 2);
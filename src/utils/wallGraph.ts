@@ -0,0 +1,284 @@
+import {
+  DimensionAnchor,
+  PlacedEntity,
+  RoomDefinition,
+  RoomWallReference,
+  WallItem
+} from '@/app/plans/[planId]/types';
+import { Point } from '@/app/lib/types';
+import { distance } from '@/app/lib/geometry';
+import { v4 as uuidv4 } from 'uuid';
+import { distanceToWall, getWallLength, projectOntoWall, splitWallBulge } from './wallArcs';
+
+// Endpoints closer than this are treated as the same junction
+export const JUNCTION_TOLERANCE = 0.5;
+// How close an endpoint must sit to another wall's body to form a T-junction
+export const T_JUNCTION_TOLERANCE = 1;
+const NODE_PRECISION = 3;
+
+export type WallEndpoint = 'start' | 'end';
+
+export interface WallEndRef {
+  wallId: string;
+  endpoint: WallEndpoint;
+}
+
+export interface WallNode {
+  id: string;
+  x: number;
+  y: number;
+  ends: WallEndRef[];
+}
+
+export interface WallGraph {
+  nodes: WallNode[];
+  nodesById: Map<string, WallNode>;
+  nodeIdByWallEnd: Map<string, string>;
+}
+
+export interface JunctionSplitResult {
+  entities: PlacedEntity[];
+  roomDefinitions: RoomDefinition[];
+}
+
+const wallEndKey = (wallId: string, endpoint: WallEndpoint) => `${wallId}:${endpoint}`;
+
+const formatNodeId = (x: number, y: number) => `${x.toFixed(NODE_PRECISION)}:${y.toFixed(NODE_PRECISION)}`;
+
+export function getWallEndpoint(wall: WallItem, endpoint: WallEndpoint): Point {
+  return endpoint === 'start'
+    ? { x: wall.startX, y: wall.startY }
+    : { x: wall.endX, y: wall.endY };
+}
+
+function setWallEndpoint(wall: WallItem, endpoint: WallEndpoint, point: Point): WallItem {
+  return endpoint === 'start'
+    ? { ...wall, startX: point.x, startY: point.y }
+    : { ...wall, endX: point.x, endY: point.y };
+}
+
+/**
+ * Cluster wall endpoints into junction nodes. A node keeps the position of the first endpoint
+ * that created it so every wall meeting there resolves to identical coordinates.
+ */
+export function buildWallGraph(walls: WallItem[], tolerance: number = JUNCTION_TOLERANCE): WallGraph {
+  const nodes: WallNode[] = [];
+  const nodeIdByWallEnd = new Map<string, string>();
+
+  walls.forEach((wall) => {
+    (['start', 'end'] as const).forEach((endpoint) => {
+      const point = getWallEndpoint(wall, endpoint);
+      let node = nodes.find((candidate) => distance(candidate, point) <= tolerance);
+
+      if (!node) {
+        node = { id: formatNodeId(point.x, point.y), x: point.x, y: point.y, ends: [] };
+        nodes.push(node);
+      }
+
+      node.ends.push({ wallId: wall.id, endpoint });
+      nodeIdByWallEnd.set(wallEndKey(wall.id, endpoint), node.id);
+    });
+  });
+
+  return {
+    nodes,
+    nodesById: new Map(nodes.map((node) => [node.id, node])),
+    nodeIdByWallEnd
+  };
+}
+
+export function getWallEndNode(graph: WallGraph, wallId: string, endpoint: WallEndpoint): WallNode | undefined {
+  const nodeId = graph.nodeIdByWallEnd.get(wallEndKey(wallId, endpoint));
+  return nodeId ? graph.nodesById.get(nodeId) : undefined;
+}
+
+export function findWallNodeNear(graph: WallGraph, x: number, y: number, tolerance: number): WallNode | undefined {
+  let best: WallNode | undefined;
+  let bestDistance = tolerance;
+
+  graph.nodes.forEach((node) => {
+    const nodeDistance = distance(node, { x, y });
+    if (nodeDistance <= bestDistance) {
+      best = node;
+      bestDistance = nodeDistance;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Move every listed wall end to the same point, e.g. while dragging a shared corner.
+ */
+export function moveWallEnds(entities: PlacedEntity[], ends: WallEndRef[], x: number, y: number): PlacedEntity[] {
+  if (ends.length === 0) return entities;
+
+  return entities.map((entity) => {
+    if (entity.type !== 'wall') return entity;
+
+    return ends
+      .filter((end) => end.wallId === entity.id)
+      .reduce((wall, end) => setWallEndpoint(wall, end.endpoint, { x, y }), entity);
+  });
+}
+
+/**
+ * Carry junction moves over to connected walls. Walls whose geometry changed between `previous`
+ * and `next` are the ones being edited; untouched walls sharing a moved junction are stretched
+ * so the corner stays closed.
+ */
+export function propagateJunctionMoves(previous: PlacedEntity[], next: PlacedEntity[]): PlacedEntity[] {
+  const previousWalls = previous.filter((entity): entity is WallItem => entity.type === 'wall');
+  const previousById = new Map(previousWalls.map((wall) => [wall.id, wall]));
+  const graph = buildWallGraph(previousWalls);
+  const movedNodes = new Map<string, Point>();
+  const editedWallIds = new Set<string>();
+
+  next.forEach((entity) => {
+    if (entity.type !== 'wall') return;
+    const before = previousById.get(entity.id);
+    if (!before) return;
+
+    (['start', 'end'] as const).forEach((endpoint) => {
+      const oldPoint = getWallEndpoint(before, endpoint);
+      const newPoint = getWallEndpoint(entity, endpoint);
+      if (oldPoint.x === newPoint.x && oldPoint.y === newPoint.y) return;
+
+      editedWallIds.add(entity.id);
+      const node = getWallEndNode(graph, entity.id, endpoint);
+      if (node && !movedNodes.has(node.id)) {
+        movedNodes.set(node.id, newPoint);
+      }
+    });
+  });
+
+  if (movedNodes.size === 0) return next;
+
+  return next.map((entity) => {
+    if (entity.type !== 'wall' || editedWallIds.has(entity.id)) return entity;
+
+    return (['start', 'end'] as const).reduce((wall, endpoint) => {
+      const node = getWallEndNode(graph, wall.id, endpoint);
+      const target = node ? movedNodes.get(node.id) : undefined;
+      return target ? setWallEndpoint(wall, endpoint, target) : wall;
+    }, entity);
+  });
+}
+
+function projectOntoWallInterior(point: Point, wall: WallItem, tolerance: number): number | null {
+  const length = getWallLength(wall);
+  if (length === 0) return null;
+
+  const { t, distance: offset } = projectOntoWall(wall, point);
+  // Ignore hits at the wall's own ends, those are regular junctions
+  if (t * length <= tolerance || (1 - t) * length <= tolerance) return null;
+
+  return offset <= tolerance ? t : null;
+}
+
+function splitRoomReferences(
+  references: RoomWallReference[],
+  hostId: string,
+  tailId: string
+): RoomWallReference[] {
+  return references.flatMap((reference) => {
+    if (reference.wallId !== hostId) return [reference];
+
+    return reference.direction === 'reverse'
+      ? [{ wallId: tailId, direction: 'reverse' as const }, { wallId: hostId, direction: 'reverse' as const }]
+      : [{ wallId: hostId, direction: reference.direction }, { wallId: tailId, direction: reference.direction }];
+  });
+}
+
+function splitDimensionAnchor(anchor: DimensionAnchor, hostId: string, tailId: string): DimensionAnchor {
+  if (anchor.kind === 'wall' && anchor.wallId === hostId && anchor.endpoint === 'end') {
+    return { ...anchor, wallId: tailId };
+  }
+  return anchor;
+}
+
+/**
+ * Cut a wall in two at `point`, which should lie on its centreline. The host keeps its id and
+ * start, the new tail wall takes over its end, and room wall lists, dimension anchors and
+ * door/window attachments are rewritten so they still describe the same plan.
+ */
+export function splitWall(
+  entities: PlacedEntity[],
+  roomDefinitions: RoomDefinition[],
+  hostId: string,
+  point: Point
+): JunctionSplitResult {
+  const host = entities.find((entity): entity is WallItem => entity.type === 'wall' && entity.id === hostId);
+  if (!host) return { entities, roomDefinitions };
+
+  const [headBulge, tailBulge] = splitWallBulge(host, projectOntoWall(host, point).t);
+  const head: WallItem = { ...host, endX: point.x, endY: point.y, bulge: headBulge };
+  const tail: WallItem = {
+    ...host,
+    id: uuidv4(),
+    startX: point.x,
+    startY: point.y,
+    bulge: tailBulge
+  };
+
+  const nextEntities = entities.flatMap((entity): PlacedEntity[] => {
+    if (entity.id === host.id) {
+      return [head, tail];
+    }
+    if (entity.type === 'dimension') {
+      return [{ ...entity, anchors: entity.anchors.map((anchor) => splitDimensionAnchor(anchor, host.id, tail.id)) }];
+    }
+    if (entity.type !== 'wall' && entity.attachedToWallId === host.id) {
+      const item = { x: entity.x, y: entity.y };
+      return distanceToWall(tail, item) < distanceToWall(head, item)
+        ? [{ ...entity, attachedToWallId: tail.id }]
+        : [entity];
+    }
+    return [entity];
+  });
+
+  const nextRooms = roomDefinitions.map((room) => (
+    room.walls.some((reference) => reference.wallId === host.id)
+      ? { ...room, walls: splitRoomReferences(room.walls, host.id, tail.id) }
+      : room
+  ));
+
+  return { entities: nextEntities, roomDefinitions: nextRooms };
+}
+
+/**
+ * Split any wall that has another wall's endpoint resting on its body, see `splitWall`.
+ */
+export function splitWallsAtJunctions(
+  entities: PlacedEntity[],
+  roomDefinitions: RoomDefinition[],
+  tolerance: number = T_JUNCTION_TOLERANCE
+): JunctionSplitResult {
+  let nextEntities = entities;
+  let nextRooms = roomDefinitions;
+  // Every split removes one T-junction, so this bounds the loop even for degenerate input
+  let remainingSplits = entities.length * 2;
+
+  while (remainingSplits-- > 0) {
+    const walls = nextEntities.filter((entity): entity is WallItem => entity.type === 'wall');
+    const graph = buildWallGraph(walls);
+    let split: { hostId: string; point: Point } | null = null;
+
+    for (const node of graph.nodes) {
+      const host = walls.find((wall) =>
+        !node.ends.some((end) => end.wallId === wall.id) &&
+        projectOntoWallInterior(node, wall, tolerance) !== null
+      );
+      if (host) {
+        split = { hostId: host.id, point: { x: node.x, y: node.y } };
+        break;
+      }
+    }
+
+    if (!split) break;
+
+    ({ entities: nextEntities, roomDefinitions: nextRooms } = splitWall(nextEntities, nextRooms, split.hostId, split.point));
+  }
+
+  return { entities: nextEntities, roomDefinitions: nextRooms };
+}
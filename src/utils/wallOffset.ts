@@ -0,0 +1,179 @@
+import { WallItem } from '@/app/plans/[planId]/types';
+import { Point } from '@/app/lib/types';
+import { distance } from '@/app/lib/geometry';
+import { v4 as uuidv4 } from 'uuid';
+import { buildWallGraph, getWallEndNode } from './wallGraph';
+import { isArcWall, pointOnWall, projectOntoWall, tessellateWall } from './wallArcs';
+import { computePolygonArea } from './roomUtils';
+
+// Mitres longer than this many offsets (very sharp corners) fall back to a bevel point
+const MITRE_LIMIT = 10;
+
+export interface WallChain {
+  walls: WallItem[]; // oriented copies, each starting where the previous one ends
+  closed: boolean;
+}
+
+export type WallOffsetResult =
+  | { ok: true; walls: WallItem[]; closed: boolean }
+  | { ok: false; error: string };
+
+export function reverseWall(wall: WallItem): WallItem {
+  return {
+    ...wall,
+    startX: wall.endX,
+    startY: wall.endY,
+    endX: wall.startX,
+    endY: wall.startY,
+    bulge: wall.bulge ? -wall.bulge : wall.bulge
+  };
+}
+
+/**
+ * Order walls into a single unbranched chain, flipping walls so they all run the same way.
+ */
+export function orderWallChain(walls: WallItem[]): WallChain | null {
+  if (walls.length === 0) return null;
+
+  const graph = buildWallGraph(walls);
+  if (graph.nodes.some((node) => node.ends.length > 2)) return null;
+
+  // Open chains start at a dangling end, closed loops anywhere
+  const startNode = graph.nodes.find((node) => node.ends.length === 1) ?? graph.nodes[0];
+  const closed = !graph.nodes.some((node) => node.ends.length === 1);
+  const wallsById = new Map(walls.map((wall) => [wall.id, wall]));
+  const ordered: WallItem[] = [];
+  const used = new Set<string>();
+  let nodeId = startNode.id;
+
+  while (ordered.length < walls.length) {
+    const next = graph.nodesById.get(nodeId)?.ends.find((end) => !used.has(end.wallId));
+    if (!next) break;
+
+    const wall = wallsById.get(next.wallId) as WallItem;
+    const oriented = next.endpoint === 'start' ? wall : reverseWall(wall);
+    ordered.push(oriented);
+    used.add(wall.id);
+
+    const farEnd = getWallEndNode(graph, wall.id, next.endpoint === 'start' ? 'end' : 'start');
+    if (!farEnd) break;
+    nodeId = farEnd.id;
+  }
+
+  // Disconnected selections leave walls unvisited
+  if (ordered.length !== walls.length) return null;
+  return { walls: ordered, closed };
+}
+
+function leftNormalAt(wall: WallItem, t: number): Point {
+  const angle = (projectOntoWall(wall, pointOnWall(wall, t)).tangentAngle * Math.PI) / 180;
+  // Same side as a positive offset in offsetWallCenterline
+  return { x: -Math.sin(angle), y: Math.cos(angle) };
+}
+
+function offsetEndpoint(wall: WallItem, t: number, offset: number): Point {
+  const point = pointOnWall(wall, t);
+  const normal = leftNormalAt(wall, t);
+  return { x: point.x + normal.x * offset, y: point.y + normal.y * offset };
+}
+
+function lineIntersection(a: Point, aDirection: Point, b: Point, bDirection: Point): Point | null {
+  const denominator = aDirection.x * bDirection.y - aDirection.y * bDirection.x;
+  if (Math.abs(denominator) < 1e-9) return null;
+
+  const t = ((b.x - a.x) * bDirection.y - (b.y - a.y) * bDirection.x) / denominator;
+  return { x: a.x + aDirection.x * t, y: a.y + aDirection.y * t };
+}
+
+/**
+ * Corner point where two offset walls meet. Straight walls are mitred by intersecting their
+ * offset lines; arcs (and over-long mitres) meet halfway between the two offset ends.
+ */
+export function mitreCorner(incoming: WallItem, outgoing: WallItem, offset: number, corner: Point): Point {
+  const incomingEnd = offsetEndpoint(incoming, 1, offset);
+  const outgoingStart = offsetEndpoint(outgoing, 0, offset);
+  const fallback = {
+    x: (incomingEnd.x + outgoingStart.x) / 2,
+    y: (incomingEnd.y + outgoingStart.y) / 2
+  };
+
+  if (isArcWall(incoming) || isArcWall(outgoing)) return fallback;
+
+  const mitre = lineIntersection(
+    incomingEnd,
+    { x: incoming.endX - incoming.startX, y: incoming.endY - incoming.startY },
+    outgoingStart,
+    { x: outgoing.endX - outgoing.startX, y: outgoing.endY - outgoing.startY }
+  );
+
+  if (!mitre || distance(mitre, corner) > Math.abs(offset) * MITRE_LIMIT) return fallback;
+  return mitre;
+}
+
+/**
+ * Signed offset that moves a closed chain outwards, i.e. away from the enclosed area.
+ */
+export function outwardOffset(chain: WallChain, offset: number): number {
+  const outline = chain.walls.flatMap((wall) => tessellateWall(wall).slice(0, -1).flatMap((point) => [point.x, point.y]));
+  let signedArea = 0;
+  for (let i = 0; i < outline.length; i += 2) {
+    const next = (i + 2) % outline.length;
+    signedArea += outline[i] * outline[next + 1] - outline[next] * outline[i + 1];
+  }
+  // Left normals point into the loop when it winds with positive signed area
+  return signedArea > 0 ? -Math.abs(offset) : Math.abs(offset);
+}
+
+/**
+ * Parallel copy of a chain of walls at `offset` pixels, on the same side as a positive offset in
+ * `offsetWallCenterline`. Copies keep the source walls' properties and get mitred corners.
+ */
+export function offsetWallChain(walls: WallItem[], offset: number): WallOffsetResult {
+  const chain = orderWallChain(walls);
+  if (!chain) {
+    return { ok: false, error: 'Select walls that form a single connected chain without branches.' };
+  }
+  if (Math.abs(offset) < 1e-6) {
+    return { ok: false, error: 'Offset distance must be greater than zero.' };
+  }
+
+  const { walls: ordered, closed } = chain;
+  const count = ordered.length;
+  const corners: Point[] = [];
+
+  for (let i = 0; i <= count; i++) {
+    const incoming = i > 0 ? ordered[i - 1] : closed ? ordered[count - 1] : null;
+    const outgoing = i < count ? ordered[i] : closed ? ordered[0] : null;
+
+    if (incoming && outgoing) {
+      corners.push(mitreCorner(incoming, outgoing, offset, { x: outgoing.startX, y: outgoing.startY }));
+    } else if (outgoing) {
+      corners.push(offsetEndpoint(outgoing, 0, offset));
+    } else if (incoming) {
+      corners.push(offsetEndpoint(incoming, 1, offset));
+    }
+  }
+
+  const copies = ordered.map((wall, index): WallItem => ({
+    ...wall,
+    id: uuidv4(),
+    startX: corners[index].x,
+    startY: corners[index].y,
+    endX: corners[index + 1].x,
+    endY: corners[index + 1].y,
+    roomIds: undefined
+  }));
+
+  // Offsetting past a wall's own length flips it around
+  const degenerate = copies.some((copy, index) => {
+    const source = ordered[index];
+    const dot = (copy.endX - copy.startX) * (source.endX - source.startX) +
+      (copy.endY - copy.startY) * (source.endY - source.startY);
+    return dot <= 0 || distance({ x: copy.startX, y: copy.startY }, { x: copy.endX, y: copy.endY }) < 1;
+  });
+  if (degenerate || (closed && computePolygonArea(corners.flatMap((point) => [point.x, point.y])) < 1)) {
+    return { ok: false, error: 'The offset is too large for this chain.' };
+  }
+
+  return { ok: true, walls: copies, closed };
+}
@@ -0,0 +1,217 @@
+import {
+  DimensionAnchor,
+  PlacedEntity,
+  isPlacedItem,
+  RoomDefinition,
+  RoomWallReference,
+  WallItem
+} from '@/app/plans/[planId]/types';
+import { Point } from '@/app/lib/types';
+import { distance } from '@/app/lib/geometry';
+import { WallEndpoint, buildWallGraph, getWallEndNode, getWallEndpoint, splitWall } from './wallGraph';
+import { getWallLength, isArcWall, projectOntoWall } from './wallArcs';
+
+export type WallOperation = 'split' | 'extend';
+
+export type WallOperationResult =
+  | { ok: true; entities: PlacedEntity[]; roomDefinitions: RoomDefinition[] }
+  | { ok: false; error: string };
+
+// Merged walls may bend by at most this much at the joint
+const COLLINEAR_TOLERANCE_RADIANS = (1 * Math.PI) / 180;
+// Pieces shorter than this (in pixels) are not worth keeping
+const MIN_WALL_LENGTH = 1;
+// How far past a boundary wall's ends an extended wall may still land on it (0..1 along the wall)
+const BOUNDARY_TOLERANCE = 1e-3;
+
+const oppositeEndpoint = (endpoint: WallEndpoint): WallEndpoint => (endpoint === 'start' ? 'end' : 'start');
+
+function findWall(entities: PlacedEntity[], wallId: string): WallItem | undefined {
+  return entities.find((entity): entity is WallItem => entity.type === 'wall' && entity.id === wallId);
+}
+
+/**
+ * Split a wall at the point of its centreline nearest `point`.
+ */
+export function splitWallAtPoint(
+  entities: PlacedEntity[],
+  roomDefinitions: RoomDefinition[],
+  wallId: string,
+  point: Point
+): WallOperationResult {
+  const wall = findWall(entities, wallId);
+  if (!wall) return { ok: false, error: 'Select a wall to split.' };
+
+  const { point: cut, t } = projectOntoWall(wall, point);
+  const length = getWallLength(wall);
+  if (t * length < MIN_WALL_LENGTH || (1 - t) * length < MIN_WALL_LENGTH) {
+    return { ok: false, error: 'Pick a point away from the ends of the wall.' };
+  }
+
+  return { ok: true, ...splitWall(entities, roomDefinitions, wallId, cut) };
+}
+
+/**
+ * Join two straight, collinear walls that meet end to end into one. The first wall keeps its id
+ * and orientation; references to the second wall are moved over to it.
+ */
+export function mergeWalls(
+  entities: PlacedEntity[],
+  roomDefinitions: RoomDefinition[],
+  firstId: string,
+  secondId: string
+): WallOperationResult {
+  const first = findWall(entities, firstId);
+  const second = findWall(entities, secondId);
+  if (!first || !second || first.id === second.id) {
+    return { ok: false, error: 'Select two walls to merge.' };
+  }
+  if (isArcWall(first) || isArcWall(second)) {
+    return { ok: false, error: 'Only straight walls can be merged.' };
+  }
+  if (Boolean(first.separator) !== Boolean(second.separator)) {
+    return { ok: false, error: 'A wall cannot be merged with a separator.' };
+  }
+
+  const graph = buildWallGraph(entities.filter((entity): entity is WallItem => entity.type === 'wall'));
+  let joint: { first: WallEndpoint; second: WallEndpoint } | null = null;
+  for (const firstEnd of ['start', 'end'] as const) {
+    for (const secondEnd of ['start', 'end'] as const) {
+      const node = getWallEndNode(graph, first.id, firstEnd);
+      if (node && node === getWallEndNode(graph, second.id, secondEnd)) {
+        if (node.ends.length > 2) {
+          return { ok: false, error: 'Another wall meets the joint, merging would disconnect it.' };
+        }
+        joint = { first: firstEnd, second: secondEnd };
+      }
+    }
+  }
+  if (!joint) return { ok: false, error: 'Walls must meet end to end to be merged.' };
+
+  const jointPoint = getWallEndpoint(first, joint.first);
+  const firstFar = getWallEndpoint(first, oppositeEndpoint(joint.first));
+  const secondFar = getWallEndpoint(second, oppositeEndpoint(joint.second));
+  const incoming = Math.atan2(jointPoint.y - firstFar.y, jointPoint.x - firstFar.x);
+  const outgoing = Math.atan2(secondFar.y - jointPoint.y, secondFar.x - jointPoint.x);
+  const bend = Math.abs(Math.atan2(Math.sin(outgoing - incoming), Math.cos(outgoing - incoming)));
+  if (bend > COLLINEAR_TOLERANCE_RADIANS) {
+    return { ok: false, error: 'Walls must be in line with each other to be merged.' };
+  }
+
+  const merged: WallItem = joint.first === 'end'
+    ? { ...first, endX: secondFar.x, endY: secondFar.y }
+    : { ...first, startX: secondFar.x, startY: secondFar.y };
+  // The second wall runs against the merged wall when both share the same endpoint kind at the joint
+  const secondReversed = joint.first === joint.second;
+
+  const remapAnchor = (anchor: DimensionAnchor): DimensionAnchor => {
+    if (anchor.kind !== 'wall') return anchor;
+    const isJoint = (anchor.wallId === first.id && anchor.endpoint === joint.first) ||
+      (anchor.wallId === second.id && anchor.endpoint === joint.second);
+    if (isJoint) {
+      return { kind: 'point', x: jointPoint.x, y: jointPoint.y };
+    }
+    if (anchor.wallId === second.id) {
+      return { ...anchor, wallId: first.id, endpoint: joint.first };
+    }
+    return anchor;
+  };
+
+  const nextEntities = entities.flatMap((entity): PlacedEntity[] => {
+    if (entity.id === second.id) return [];
+    if (entity.id === first.id) return [merged];
+    if (entity.type === 'dimension') {
+      return [{ ...entity, anchors: entity.anchors.map(remapAnchor) }];
+    }
+    if (entity.type !== 'wall' && entity.attachedToWallId === second.id) {
+      return [{ ...entity, attachedToWallId: first.id }];
+    }
+    return [entity];
+  });
+
+  const nextRooms = roomDefinitions.map((room) => {
+    if (!room.walls.some((reference) => reference.wallId === second.id)) return room;
+
+    const hasFirst = room.walls.some((reference) => reference.wallId === first.id);
+    const walls = room.walls.flatMap((reference): RoomWallReference[] => {
+      if (reference.wallId !== second.id) return [reference];
+      if (hasFirst) return [];
+
+      const direction = reference.direction ?? 'forward';
+      return [{
+        wallId: first.id,
+        direction: secondReversed ? (direction === 'forward' ? 'reverse' : 'forward') : direction
+      }];
+    });
+
+    return { ...room, walls };
+  });
+
+  return { ok: true, entities: nextEntities, roomDefinitions: nextRooms };
+}
+
+/**
+ * Move the nearer end of a straight wall onto the line of a boundary wall, lengthening or
+ * shortening it. The boundary is split at the new T-junction when the geometry is committed.
+ */
+export function extendWallToWall(
+  entities: PlacedEntity[],
+  roomDefinitions: RoomDefinition[],
+  wallId: string,
+  boundaryId: string
+): WallOperationResult {
+  const wall = findWall(entities, wallId);
+  const boundary = findWall(entities, boundaryId);
+  if (!wall || !boundary || wall.id === boundary.id) {
+    return { ok: false, error: 'Pick another wall to extend or trim to.' };
+  }
+  if (isArcWall(wall) || isArcWall(boundary)) {
+    return { ok: false, error: 'Extend and trim work on straight walls only.' };
+  }
+
+  const wallDirection = { x: wall.endX - wall.startX, y: wall.endY - wall.startY };
+  const boundaryDirection = { x: boundary.endX - boundary.startX, y: boundary.endY - boundary.startY };
+  const denominator = wallDirection.x * boundaryDirection.y - wallDirection.y * boundaryDirection.x;
+  if (Math.abs(denominator) < 1e-9) {
+    return { ok: false, error: 'Parallel walls never meet.' };
+  }
+
+  const offset = { x: boundary.startX - wall.startX, y: boundary.startY - wall.startY };
+  const alongWall = (offset.x * boundaryDirection.y - offset.y * boundaryDirection.x) / denominator;
+  const alongBoundary = (offset.x * wallDirection.y - offset.y * wallDirection.x) / denominator;
+  if (alongBoundary < -BOUNDARY_TOLERANCE || alongBoundary > 1 + BOUNDARY_TOLERANCE) {
+    return { ok: false, error: 'The wall would miss the boundary wall.' };
+  }
+
+  const meet = {
+    x: wall.startX + wallDirection.x * alongWall,
+    y: wall.startY + wallDirection.y * alongWall
+  };
+  const endpoint: WallEndpoint = alongWall > 0.5 ? 'end' : 'start';
+  const fixed = getWallEndpoint(wall, oppositeEndpoint(endpoint));
+  if (distance(fixed, meet) < MIN_WALL_LENGTH) {
+    return { ok: false, error: 'Trimming would remove the whole wall.' };
+  }
+
+  const moved: WallItem = endpoint === 'end'
+    ? { ...wall, endX: meet.x, endY: meet.y }
+    : { ...wall, startX: meet.x, startY: meet.y };
+
+  // Doors and windows on a trimmed-off piece of the wall go with it
+  const [keptFrom, keptTo] = endpoint === 'end' ? [0, alongWall] : [alongWall, 1];
+  const lengthSquared = wallDirection.x * wallDirection.x + wallDirection.y * wallDirection.y;
+  const isCutOff = (entity: PlacedEntity) => {
+    if (!isPlacedItem(entity) || entity.attachedToWallId !== wall.id) return false;
+    const along = ((entity.x - wall.startX) * wallDirection.x + (entity.y - wall.startY) * wallDirection.y) / lengthSquared;
+    return along < keptFrom || along > keptTo;
+  };
+
+  return {
+    ok: true,
+    entities: entities.flatMap((entity) => {
+      if (entity.id === wall.id) return [moved];
+      return isCutOff(entity) ? [] : [entity];
+    }),
+    roomDefinitions
+  };
+}
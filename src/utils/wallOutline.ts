@@ -0,0 +1,161 @@
+import { WallItem } from '@/app/plans/[planId]/types';
+import { Point } from '@/app/lib/types';
+import { distance, isPointInPolygon, isPointNearLine } from '@/app/lib/geometry';
+import { WallEndpoint, buildWallGraph, getWallEndNode, getWallEndpoint } from './wallGraph';
+import { offsetWallCenterline, wallDepartureAngle } from './wallArcs';
+
+// Mitre points further than this many half-thicknesses from the junction fall back to a butt join
+const MITRE_LIMIT = 4;
+
+export interface WallOutline {
+  wallId: string;
+  polygon: Point[];
+  // Sides and free end caps; the edges shared with neighbouring walls are left out so the filled
+  // polygons read as one unioned shape when stroked
+  boundary: Point[][];
+}
+
+interface WallEnd {
+  wall: WallItem;
+  endpoint: WallEndpoint;
+  angle: number;
+  halfThickness: number;
+}
+
+interface EndCorners {
+  left: Point;
+  right: Point;
+  free: boolean;
+}
+
+const createWallEnd = (wall: WallItem, endpoint: WallEndpoint): WallEnd => ({
+  wall,
+  endpoint,
+  angle: wallDepartureAngle(wall, endpoint),
+  halfThickness: wall.thickness / 2
+});
+
+const leftNormal = (angle: number): Point => ({ x: -Math.sin(angle), y: Math.cos(angle) });
+
+function edgeLine(end: WallEnd, side: 1 | -1): { point: Point; direction: Point } {
+  const origin = getWallEndpoint(end.wall, end.endpoint);
+  const normal = leftNormal(end.angle);
+  return {
+    point: {
+      x: origin.x + normal.x * end.halfThickness * side,
+      y: origin.y + normal.y * end.halfThickness * side
+    },
+    direction: { x: Math.cos(end.angle), y: Math.sin(end.angle) }
+  };
+}
+
+function intersectLines(
+  a: { point: Point; direction: Point },
+  b: { point: Point; direction: Point }
+): Point | null {
+  const denominator = a.direction.x * b.direction.y - a.direction.y * b.direction.x;
+  if (Math.abs(denominator) < 1e-9) return null;
+
+  const t = ((b.point.x - a.point.x) * b.direction.y - (b.point.y - a.point.y) * b.direction.x) / denominator;
+  return { x: a.point.x + a.direction.x * t, y: a.point.y + a.direction.y * t };
+}
+
+/**
+ * Corner points of one wall end. Walls leaving a junction are sorted by angle; each wall's left
+ * edge is mitred against the right edge of the next wall counter-clockwise and vice versa.
+ */
+function computeEndCorners(end: WallEnd, siblings: WallEnd[]): EndCorners {
+  const ownLeft = edgeLine(end, 1);
+  const ownRight = edgeLine(end, -1);
+
+  if (siblings.length < 2) {
+    return { left: ownLeft.point, right: ownRight.point, free: true };
+  }
+
+  const index = siblings.indexOf(end);
+  const next = siblings[(index + 1) % siblings.length];
+  const previous = siblings[(index - 1 + siblings.length) % siblings.length];
+  const junction = getWallEndpoint(end.wall, end.endpoint);
+
+  const mitre = (own: { point: Point; direction: Point }, other: WallEnd, side: 1 | -1): Point => {
+    const corner = intersectLines(own, edgeLine(other, side));
+    const limit = Math.max(end.halfThickness, other.halfThickness) * MITRE_LIMIT;
+    return corner && distance(corner, junction) <= limit ? corner : own.point;
+  };
+
+  return {
+    left: mitre(ownLeft, next, -1),
+    right: mitre(ownRight, previous, 1),
+    free: false
+  };
+}
+
+/**
+ * Filled outline of every wall at its real thickness, with mitred joins wherever walls meet in
+ * the wall graph and butt ends elsewhere. Separators have no body, so they never bend the joins
+ * of the walls they touch.
+ */
+export function buildWallOutlines(walls: WallItem[]): Map<string, WallOutline> {
+  const graph = buildWallGraph(walls);
+  const endsByNode = new Map<string, WallEnd[]>();
+  const endByKey = new Map<string, WallEnd>();
+
+  walls.forEach((wall) => {
+    if (wall.separator) return;
+
+    (['start', 'end'] as const).forEach((endpoint) => {
+      const node = getWallEndNode(graph, wall.id, endpoint);
+      if (!node) return;
+
+      const end = createWallEnd(wall, endpoint);
+      const ends = endsByNode.get(node.id) ?? [];
+      ends.push(end);
+      endsByNode.set(node.id, ends);
+      endByKey.set(`${wall.id}:${endpoint}`, end);
+    });
+  });
+
+  endsByNode.forEach((ends) => ends.sort((a, b) => a.angle - b.angle));
+
+  const outlines = new Map<string, WallOutline>();
+
+  walls.forEach((wall) => {
+    const startNode = getWallEndNode(graph, wall.id, 'start');
+    const endNode = getWallEndNode(graph, wall.id, 'end');
+    const startEnd = wall.separator ? createWallEnd(wall, 'start') : endByKey.get(`${wall.id}:start`);
+    const endEnd = wall.separator ? createWallEnd(wall, 'end') : endByKey.get(`${wall.id}:end`);
+    if (!startNode || !endNode || !startEnd || !endEnd) return;
+
+    const start = computeEndCorners(startEnd, wall.separator ? [] : endsByNode.get(startNode.id) ?? []);
+    const end = computeEndCorners(endEnd, wall.separator ? [] : endsByNode.get(endNode.id) ?? []);
+    const halfThickness = wall.thickness / 2;
+
+    // Seen from the end node the wall runs backwards, so its left corner lies on the wall's right side
+    const leftSide = [start.left, ...offsetWallCenterline(wall, halfThickness).slice(1, -1), end.right];
+    const rightSide = [start.right, ...offsetWallCenterline(wall, -halfThickness).slice(1, -1), end.left];
+
+    const boundary = [leftSide, rightSide];
+    if (start.free) boundary.push([start.right, start.left]);
+    if (end.free) boundary.push([end.left, end.right]);
+
+    outlines.set(wall.id, {
+      wallId: wall.id,
+      polygon: [...leftSide, ...[...rightSide].reverse()],
+      boundary
+    });
+  });
+
+  return outlines;
+}
+
+/**
+ * Whether a point lies inside the outline or within `tolerance` of its edge.
+ */
+export function isPointInWallOutline(outline: WallOutline, point: Point, tolerance: number = 0): boolean {
+  if (isPointInPolygon(point, outline.polygon)) return true;
+  if (tolerance <= 0) return false;
+
+  return outline.polygon.some((vertex, index) =>
+    isPointNearLine(point, vertex, outline.polygon[(index + 1) % outline.polygon.length], tolerance)
+  );
+}
@@ -0,0 +1,61 @@
+import {
+  DEFAULT_WALL_HEIGHT_METERS,
+  DEFAULT_WALL_MATERIAL,
+  WallItem,
+  WallLayer,
+  WallMaterial
+} from '@/app/plans/[planId]/types';
+
+export type WallHatch = 'none' | 'diagonal' | 'cross' | 'glazing';
+
+export interface WallMaterialStyle {
+  label: string;
+  fill: string;
+  hatch: WallHatch;
+  hatchColor: string;
+}
+
+export const WALL_MATERIAL_STYLES: Record<WallMaterial, WallMaterialStyle> = {
+  drywall: { label: 'Drywall', fill: '#374151', hatch: 'none', hatchColor: '#374151' },
+  brick: { label: 'Brick', fill: '#9a3412', hatch: 'diagonal', hatchColor: '#fed7aa' },
+  concrete: { label: 'Concrete', fill: '#6b7280', hatch: 'cross', hatchColor: '#e5e7eb' },
+  glass: { label: 'Glass', fill: '#7dd3fc', hatch: 'glazing', hatchColor: '#0369a1' }
+};
+
+export const WALL_MATERIALS = Object.keys(WALL_MATERIAL_STYLES) as WallMaterial[];
+export const WALL_LAYERS: WallLayer[] = ['interior', 'exterior'];
+
+export interface WallProperties {
+  thickness: number; // pixels, like the wall geometry
+  height: number; // metres
+  material: WallMaterial;
+  layer: WallLayer;
+  loadBearing: boolean;
+  separator: boolean;
+}
+
+/**
+ * Wall properties with defaults filled in for walls saved before they existed.
+ */
+export function getWallProperties(wall: WallItem): WallProperties {
+  return {
+    thickness: wall.thickness,
+    height: wall.height ?? DEFAULT_WALL_HEIGHT_METERS,
+    material: wall.material ?? DEFAULT_WALL_MATERIAL,
+    layer: wall.layer ?? 'interior',
+    loadBearing: wall.loadBearing ?? false,
+    separator: wall.separator ?? false
+  };
+}
+
+/**
+ * The value shared by every wall, or null when the selection mixes values.
+ */
+export function sharedWallProperty<K extends keyof WallProperties>(
+  walls: WallItem[],
+  key: K
+): WallProperties[K] | null {
+  if (walls.length === 0) return null;
+  const first = getWallProperties(walls[0])[key];
+  return walls.every((wall) => getWallProperties(wall)[key] === first) ? first : null;
+}